@@ -0,0 +1,39 @@
+import type { Adapter, AdapterTraceHook } from '../types.js'
+import type { ServerMetrics } from '../metrics.js'
+
+/**
+ * Wraps an adapter so every call is timed into the metrics and reported to the trace hook.
+ * Subscription callbacks are invoked by the adapter itself and aren't traced.
+ */
+export function instrumentAdapter(adapter: Adapter, metrics: ServerMetrics, trace?: AdapterTraceHook): Adapter {
+  const wrappers = new Map<PropertyKey, (...args: unknown[]) => Promise<unknown>>()
+
+  return new Proxy(adapter, {
+    get(target, property, receiver) {
+      const value: unknown = Reflect.get(target, property, receiver)
+      if (typeof value !== 'function' || typeof property !== 'string') return value
+
+      let wrapper = wrappers.get(property)
+      if (!wrapper) {
+        const method = property as keyof Adapter
+        wrapper = async (...args: unknown[]) => {
+          const finish = trace?.(method, args)
+          const start = performance.now()
+          try {
+            const result: unknown = await value.apply(target, args)
+            finish?.()
+            return result
+          } catch (error) {
+            metrics.adapterErrors.inc({ method })
+            finish?.(error)
+            throw error
+          } finally {
+            metrics.adapterDuration.observe((performance.now() - start) / 1000, { method })
+          }
+        }
+        wrappers.set(property, wrapper)
+      }
+      return wrapper
+    }
+  })
+}
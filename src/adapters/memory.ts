@@ -1,49 +1,206 @@
-import type { Adapter, User, ServerMessage } from '../types.js'
+import type { Adapter, ControlMessage, RoomSummary, RoomMember, MemberPatch, MemberUpdate, User, ServerMessage, DocUpdate, RoomMetadata, RoomEvent, HistoryConfig, Session } from '../types.js'
+import { CollabDoc } from '../crdt.js'
+import { TokenBucket } from '../limits/rate-limiter.js'
+import { mergeMembers } from '../presence/members.js'
 
 export class MemoryAdapter implements Adapter {
-  private rooms = new Map<string, Map<string, User>>()
+  // Members of each room by session id
+  private rooms = new Map<string, Map<string, RoomMember>>()
+  private documents = new Map<string, CollabDoc>()
+  private metadata = new Map<string, RoomMetadata>()
+  private events = new Map<string, RoomEvent[]>()
+  private sequences = new Map<string, number>()
+  private sessions = new Map<string, { session: Session; expiresAt: number }>()
+  private buckets = new Map<string, TokenBucket>()
+  // Ban expiry by [roomId, userId], with a null roomId for server-wide bans
+  private bans = new Map<string, number>()
+  private maxEvents: number
+  private maxEventAge: number
+
+  constructor(options?: { history?: HistoryConfig }) {
+    this.maxEvents = options?.history?.maxSize ?? 100
+    this.maxEventAge = options?.history?.maxAge ?? Infinity
+  }
   private subscribers = new Map<string, Set<(message: ServerMessage) => void>>()
+  private controlSubscribers = new Set<(message: ControlMessage) => void>()
 
-  async joinRoom(roomId: string, userId: string, metadata?: User['metadata']): Promise<void> {
+  async joinRoom(roomId: string, member: Pick<RoomMember, 'sessionId' | 'userId' | 'role' | 'metadata' | 'device'>): Promise<void> {
     if (!this.rooms.has(roomId)) {
       this.rooms.set(roomId, new Map())
     }
     
     const room = this.rooms.get(roomId)!
-    if (!room.has(userId)) {
-      room.set(userId, {
-        id: userId,
-        roomId,
-        cursor: null,
-        typing: false,
-        metadata
-      })
-    }
+    const existing = room.get(member.sessionId)
+    room.set(member.sessionId, {
+      cursor: null,
+      typing: false,
+      lastActive: Date.now(),
+      ...existing,
+      ...member,
+      status: 'online'
+    })
   }
 
-  async leaveRoom(roomId: string, userId: string): Promise<void> {
+  async leaveRoom(roomId: string, userId: string, sessionId?: string): Promise<{ left: boolean; sessionIds: string[] }> {
     const room = this.rooms.get(roomId)
-    if (room) {
-      room.delete(userId)
-      if (room.size === 0) {
-        this.rooms.delete(roomId)
-      }
+    if (!room) return { left: true, sessionIds: [] }
+
+    const sessionIds: string[] = []
+    room.forEach((member, id) => {
+      if (member.userId !== userId || (sessionId !== undefined && id !== sessionId)) return
+      room.delete(id)
+      sessionIds.push(id)
+    })
+    if (room.size === 0) {
+      this.rooms.delete(roomId)
     }
+    return { left: !Array.from(room.values()).some(member => member.userId === userId), sessionIds }
   }
 
-  async updateUser(roomId: string, userId: string, updates: Partial<User>): Promise<void> {
-    const room = this.rooms.get(roomId)
-    if (room) {
-      const user = room.get(userId)
-      if (user) {
-        Object.assign(user, updates)
-      }
+  async updateMember(roomId: string, sessionId: string, updates: MemberUpdate): Promise<void> {
+    const member = this.rooms.get(roomId)?.get(sessionId)
+    if (member) {
+      Object.assign(member, updates)
+    }
+  }
+
+  async updateMembers(roomId: string, patches: MemberPatch[]): Promise<void> {
+    for (const { sessionId, ...updates } of patches) {
+      await this.updateMember(roomId, sessionId, updates)
     }
   }
 
   async getUsers(roomId: string): Promise<User[]> {
     const room = this.rooms.get(roomId)
-    return room ? Array.from(room.values()) : []
+    return room ? mergeMembers(roomId, room.values()) : []
+  }
+
+  async listRooms(): Promise<RoomSummary[]> {
+    return Array.from(this.rooms, ([id, members]) => ({
+      id,
+      userCount: new Set(Array.from(members.values(), member => member.userId)).size
+    }))
+  }
+
+  async getDocument(roomId: string): Promise<DocUpdate> {
+    return this.documents.get(roomId)?.encodeState() ?? []
+  }
+
+  async applyDocumentUpdate(roomId: string, update: DocUpdate): Promise<void> {
+    if (!this.documents.has(roomId)) {
+      this.documents.set(roomId, new CollabDoc('server'))
+    }
+    this.documents.get(roomId)!.applyUpdate(update)
+  }
+
+  async getRoomMetadata(roomId: string): Promise<RoomMetadata> {
+    return this.metadata.get(roomId) ?? {}
+  }
+
+  async setRoomMetadata(roomId: string, metadata: RoomMetadata): Promise<void> {
+    this.metadata.set(roomId, metadata)
+  }
+
+  async appendEvent(roomId: string, event: Omit<RoomEvent, 'seq'>): Promise<RoomEvent> {
+    const seq = (this.sequences.get(roomId) ?? 0) + 1
+    this.sequences.set(roomId, seq)
+    const entry: RoomEvent = { ...event, seq }
+    this.appendToLog(roomId, [entry])
+    return entry
+  }
+
+  async getEvents(roomId: string, afterSeq = 0): Promise<RoomEvent[]> {
+    const oldest = Date.now() - this.maxEventAge
+    return (this.events.get(roomId) ?? [])
+      .filter(event => event.seq > afterSeq && event.timestamp >= oldest)
+  }
+
+  async getLastSeq(roomId: string): Promise<number> {
+    return this.sequences.get(roomId) ?? 0
+  }
+
+  async restoreEvents(roomId: string, events: RoomEvent[]): Promise<void> {
+    if (events.length === 0) return
+    const lastSeq = events[events.length - 1].seq
+    this.sequences.set(roomId, Math.max(this.sequences.get(roomId) ?? 0, lastSeq))
+    this.appendToLog(roomId, events)
+  }
+
+  private appendToLog(roomId: string, entries: RoomEvent[]): void {
+    if (!this.events.has(roomId)) {
+      this.events.set(roomId, [])
+    }
+    const log = this.events.get(roomId)!
+    log.push(...entries)
+
+    const oldest = Date.now() - this.maxEventAge
+    const expired = log.findIndex(event => event.timestamp >= oldest)
+    const dropCount = Math.max(log.length - this.maxEvents, expired === -1 ? log.length : expired)
+    if (dropCount > 0) {
+      log.splice(0, dropCount)
+    }
+  }
+
+  async saveSession(session: Session, ttl?: number): Promise<void> {
+    this.sessions.set(session.id, {
+      session: structuredClone(session),
+      expiresAt: ttl ? Date.now() + ttl : Infinity
+    })
+  }
+
+  async getSession(sessionId: string): Promise<Session | null> {
+    const entry = this.sessions.get(sessionId)
+    if (!entry) return null
+    if (entry.expiresAt <= Date.now()) {
+      this.sessions.delete(sessionId)
+      return null
+    }
+    return structuredClone(entry.session)
+  }
+
+  async deleteSession(sessionId: string): Promise<void> {
+    this.sessions.delete(sessionId)
+  }
+
+  async banUser(userId: string, roomId?: string, duration?: number): Promise<void> {
+    this.bans.set(JSON.stringify([roomId ?? null, userId]), duration ? Date.now() + duration : Infinity)
+  }
+
+  async unbanUser(userId: string, roomId?: string): Promise<void> {
+    this.bans.delete(JSON.stringify([roomId ?? null, userId]))
+  }
+
+  async isBanned(userId: string, roomId?: string): Promise<boolean> {
+    const scopes = roomId === undefined ? [null] : [null, roomId]
+    return scopes.some(scope => {
+      const key = JSON.stringify([scope, userId])
+      const expiresAt = this.bans.get(key)
+      if (expiresAt === undefined) return false
+      if (expiresAt > Date.now()) return true
+      this.bans.delete(key)
+      return false
+    })
+  }
+
+  // A single process has no other nodes to track, but refilled buckets can be forgotten
+  async heartbeat(_ttl: number): Promise<void> {
+    const now = Date.now()
+    this.buckets.forEach((bucket, key) => {
+      if (bucket.isFull(now)) this.buckets.delete(key)
+    })
+  }
+
+  async reapDeadNodes(): Promise<string[]> {
+    return []
+  }
+
+  async takeToken(key: string, rate: number, burst: number): Promise<number> {
+    let bucket = this.buckets.get(key)
+    if (!bucket) {
+      bucket = new TokenBucket(rate, burst)
+      this.buckets.set(key, bucket)
+    }
+    return bucket.take()
   }
 
   async broadcast(roomId: string, message: ServerMessage): Promise<void> {
@@ -69,4 +226,12 @@ export class MemoryAdapter implements Adapter {
       }
     }
   }
+
+  async publishControl(message: ControlMessage): Promise<void> {
+    this.controlSubscribers.forEach(callback => callback(message))
+  }
+
+  async subscribeControl(callback: (message: ControlMessage) => void): Promise<void> {
+    this.controlSubscribers.add(callback)
+  }
 }
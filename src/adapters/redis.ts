@@ -1,13 +1,83 @@
 import Redis from 'ioredis'
-import type { Adapter, User, ServerMessage } from '../types.js'
+import type { Adapter, ControlMessage, RoomSummary, RoomMember, MemberPatch, MemberUpdate, User, ServerMessage, DocUpdate, RoomMetadata, RoomEvent, HistoryConfig, Session } from '../types.js'
+import { CollabDoc } from '../crdt.js'
+import { mergeMembers } from '../presence/members.js'
+
+// Document update logs longer than this are merged into a single state entry on read
+const DOC_COMPACT_THRESHOLD = 500
+
+// Sequence numbers double as stream ids, so appends stay ordered across nodes
+const APPEND_EVENT_SCRIPT = `
+local seq = redis.call('INCR', KEYS[2])
+redis.call('XADD', KEYS[1], 'MAXLEN', '~', ARGV[1], seq .. '-0', 'event', ARGV[2])
+if tonumber(ARGV[3]) > 0 then
+  redis.call('PEXPIRE', KEYS[1], ARGV[3])
+end
+return seq
+`
+
+// Token bucket on the Redis clock, so every node refills the same bucket at the same pace
+const TAKE_TOKEN_SCRIPT = `
+local rate = tonumber(ARGV[1])
+local burst = tonumber(ARGV[2])
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local bucket = redis.call('HMGET', KEYS[1], 'tokens', 'updatedAt')
+local tokens = tonumber(bucket[1]) or burst
+local updatedAt = tonumber(bucket[2]) or now
+tokens = math.min(burst, tokens + (now - updatedAt) * rate / 1000)
+local wait = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+else
+  wait = math.ceil((1 - tokens) * 1000 / rate)
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'updatedAt', tostring(now))
+redis.call('PEXPIRE', KEYS[1], math.ceil(burst * 1000 / rate) + 1000)
+return wait
+`
+
+// Removes one session, or all of a user's sessions, and the user with the last of them.
+// Replies with whether the user is gone and which sessions were removed.
+const LEAVE_ROOM_SCRIPT = `
+local sessions = ARGV[2] ~= '' and { ARGV[2] } or redis.call('SMEMBERS', KEYS[2])
+for _, id in ipairs(sessions) do
+  redis.call('HDEL', KEYS[1], id)
+  redis.call('HDEL', KEYS[4], id)
+  redis.call('SREM', KEYS[2], id)
+end
+if redis.call('SCARD', KEYS[2]) == 0 then
+  redis.call('SREM', KEYS[3], ARGV[1])
+  return { 1, sessions }
+end
+return { 0, sessions }
+`
+
+// Empty rooms leave the room index, unless a concurrent join got there first
+const PRUNE_ROOM_SCRIPT = `
+if redis.call('SCARD', KEYS[2]) == 0 then
+  redis.call('SREM', KEYS[1], ARGV[1])
+end
+`
 
 export class RedisAdapter implements Adapter {
   private redis: Redis
   private pub: Redis
   private sub: Redis
   private subscribers = new Map<string, Set<(message: ServerMessage) => void>>()
+  private controlSubscribers = new Set<(message: ControlMessage) => void>()
+  // Users joined through this node are tracked so survivors can clean up if it dies
+  readonly nodeId = crypto.randomUUID()
+  // Sessions saved without a ttl live as long as this node's heartbeat, so a crash doesn't leak them
+  private liveSessions = new Set<string>()
+  private liveSessionTtl = 0
+  private maxEvents: number
+  private maxEventAge: number
+
+  constructor(config?: { url?: string; host?: string; port?: number; password?: string }, options?: { history?: HistoryConfig }) {
+    this.maxEvents = options?.history?.maxSize ?? 100
+    this.maxEventAge = options?.history?.maxAge ?? Infinity
 
-  constructor(config?: { url?: string; host?: string; port?: number; password?: string }) {
     const redisConfig = config?.url 
       ? { path: config.url }
       : {
@@ -21,6 +91,11 @@ export class RedisAdapter implements Adapter {
     this.sub = new Redis(redisConfig)
 
     this.sub.on('message', (channel, message) => {
+      if (channel === 'control') {
+        const data = JSON.parse(message) as ControlMessage
+        this.controlSubscribers.forEach(callback => callback(data))
+        return
+      }
       const roomId = channel.replace('room:', '')
       const data = JSON.parse(message) as ServerMessage
       const callbacks = this.subscribers.get(roomId)
@@ -30,40 +105,235 @@ export class RedisAdapter implements Adapter {
     })
   }
 
-  async joinRoom(roomId: string, userId: string, metadata?: User['metadata']): Promise<void> {
-    const user: User = {
-      id: userId,
-      roomId,
+  // Members are stored per session; `members` holds the ids of users with at least one session
+  async joinRoom(roomId: string, member: Pick<RoomMember, 'sessionId' | 'userId' | 'role' | 'metadata' | 'device'>): Promise<void> {
+    const existing = await this.redis.hget(`room:${roomId}:sessions`, member.sessionId)
+    const entry: RoomMember = {
       cursor: null,
       typing: false,
-      metadata
+      lastActive: Date.now(),
+      ...(existing ? JSON.parse(existing) as RoomMember : undefined),
+      ...member,
+      status: 'online'
+    }
+    await this.redis.multi()
+      .hset(`room:${roomId}:sessions`, member.sessionId, JSON.stringify(entry))
+      .sadd(`room:${roomId}:user:${member.userId}`, member.sessionId)
+      .sadd(`room:${roomId}:members`, member.userId)
+      .sadd('rooms', roomId)
+      .hset(`room:${roomId}:owners`, member.sessionId, this.nodeId)
+      .sadd(`node:${this.nodeId}:members`, JSON.stringify([roomId, member.userId, member.sessionId]))
+      .exec()
+  }
+
+  async leaveRoom(roomId: string, userId: string, sessionId?: string): Promise<{ left: boolean; sessionIds: string[] }> {
+    const [gone, sessionIds] = await this.removeMembers(roomId, userId, sessionId)
+    if (sessionIds.length > 0) {
+      await this.redis.srem(`node:${this.nodeId}:members`, ...sessionIds.map(id => JSON.stringify([roomId, userId, id])))
     }
-    await this.redis.hset(`room:${roomId}:users`, userId, JSON.stringify(user))
-    await this.redis.sadd(`room:${roomId}:members`, userId)
+    return { left: gone, sessionIds }
   }
 
-  async leaveRoom(roomId: string, userId: string): Promise<void> {
-    await this.redis.hdel(`room:${roomId}:users`, userId)
-    await this.redis.srem(`room:${roomId}:members`, userId)
+  private async removeMembers(roomId: string, userId: string, sessionId?: string): Promise<[boolean, string[]]> {
+    const [gone, sessionIds] = await this.redis.eval(
+      LEAVE_ROOM_SCRIPT, 4,
+      `room:${roomId}:sessions`, `room:${roomId}:user:${userId}`, `room:${roomId}:members`, `room:${roomId}:owners`,
+      userId, sessionId ?? ''
+    ) as [number, string[]]
+    return [gone === 1, sessionIds]
   }
 
-  async updateUser(roomId: string, userId: string, updates: Partial<User>): Promise<void> {
-    const userData = await this.redis.hget(`room:${roomId}:users`, userId)
-    if (userData) {
-      const user = JSON.parse(userData) as User
-      Object.assign(user, updates)
-      await this.redis.hset(`room:${roomId}:users`, userId, JSON.stringify(user))
+  async updateMember(roomId: string, sessionId: string, updates: MemberUpdate): Promise<void> {
+    const memberData = await this.redis.hget(`room:${roomId}:sessions`, sessionId)
+    if (memberData) {
+      const member = JSON.parse(memberData) as RoomMember
+      Object.assign(member, updates)
+      await this.redis.hset(`room:${roomId}:sessions`, sessionId, JSON.stringify(member))
+    }
+  }
+
+  // One read and one write for the whole batch, however many sessions changed
+  async updateMembers(roomId: string, patches: MemberPatch[]): Promise<void> {
+    if (patches.length === 0) return
+    const key = `room:${roomId}:sessions`
+    const membersData = await this.redis.hmget(key, ...patches.map(patch => patch.sessionId))
+    const updated: Record<string, string> = {}
+    patches.forEach(({ sessionId, ...updates }, index) => {
+      const memberData = membersData[index]
+      if (memberData) {
+        updated[sessionId] = JSON.stringify({ ...JSON.parse(memberData) as RoomMember, ...updates })
+      }
+    })
+    if (Object.keys(updated).length > 0) {
+      await this.redis.hset(key, updated)
     }
   }
 
   async getUsers(roomId: string): Promise<User[]> {
-    const members = await this.redis.smembers(`room:${roomId}:members`)
-    if (members.length === 0) return []
+    const membersData = await this.redis.hvals(`room:${roomId}:sessions`)
+    return mergeMembers(roomId, membersData.map(data => JSON.parse(data) as RoomMember))
+  }
+
+  async listRooms(): Promise<RoomSummary[]> {
+    const roomIds = await this.redis.smembers('rooms')
+    const pipeline = this.redis.pipeline()
+    roomIds.forEach(roomId => pipeline.scard(`room:${roomId}:members`))
+    const counts = await pipeline.exec() ?? []
+
+    const rooms: RoomSummary[] = []
+    for (const [index, roomId] of roomIds.entries()) {
+      const userCount = Number(counts[index]?.[1] ?? 0)
+      if (userCount > 0) {
+        rooms.push({ id: roomId, userCount })
+      } else {
+        await this.redis.eval(PRUNE_ROOM_SCRIPT, 2, 'rooms', `room:${roomId}:members`, roomId)
+      }
+    }
+    return rooms
+  }
+
+  async getDocument(roomId: string): Promise<DocUpdate> {
+    const key = `room:${roomId}:doc`
+    const entries = await this.redis.lrange(key, 0, -1)
+    if (entries.length === 0) return []
+
+    const doc = new CollabDoc('server')
+    entries.forEach(entry => doc.applyUpdate(JSON.parse(entry) as DocUpdate))
+    const state = doc.encodeState()
+
+    // Updates appended after our read stay behind the compacted state
+    if (entries.length > DOC_COMPACT_THRESHOLD) {
+      await this.redis.multi()
+        .ltrim(key, entries.length, -1)
+        .lpush(key, JSON.stringify(state))
+        .exec()
+    }
+    return state
+  }
+
+  async applyDocumentUpdate(roomId: string, update: DocUpdate): Promise<void> {
+    await this.redis.rpush(`room:${roomId}:doc`, JSON.stringify(update))
+  }
+
+  async getRoomMetadata(roomId: string): Promise<RoomMetadata> {
+    const data = await this.redis.get(`room:${roomId}:metadata`)
+    return data ? JSON.parse(data) as RoomMetadata : {}
+  }
+
+  async setRoomMetadata(roomId: string, metadata: RoomMetadata): Promise<void> {
+    await this.redis.set(`room:${roomId}:metadata`, JSON.stringify(metadata))
+  }
+
+  async appendEvent(roomId: string, event: Omit<RoomEvent, 'seq'>): Promise<RoomEvent> {
+    const ttl = Number.isFinite(this.maxEventAge) ? this.maxEventAge : 0
+    const seq = await this.redis.eval(
+      APPEND_EVENT_SCRIPT, 2,
+      `room:${roomId}:history`, `room:${roomId}:seq`,
+      this.maxEvents, JSON.stringify(event), ttl
+    ) as number
+    return { ...event, seq }
+  }
+
+  async getEvents(roomId: string, afterSeq = 0): Promise<RoomEvent[]> {
+    const entries = await this.redis.xrange(`room:${roomId}:history`, `${afterSeq + 1}-0`, '+')
+    const oldest = Date.now() - this.maxEventAge
+    return entries
+      .map(([id, fields]) => ({ ...JSON.parse(fields[1]), seq: parseInt(id, 10) }) as RoomEvent)
+      .filter(event => event.timestamp >= oldest)
+  }
 
-    const usersData = await this.redis.hmget(`room:${roomId}:users`, ...members)
-    return usersData
-      .filter(Boolean)
-      .map(data => JSON.parse(data!) as User)
+  async getLastSeq(roomId: string): Promise<number> {
+    return Number(await this.redis.get(`room:${roomId}:seq`) ?? 0)
+  }
+
+  async restoreEvents(roomId: string, events: RoomEvent[]): Promise<void> {
+    if (events.length === 0) return
+    const pipeline = this.redis.pipeline()
+    for (const { seq, ...event } of events) {
+      pipeline.xadd(`room:${roomId}:history`, 'MAXLEN', '~', this.maxEvents, `${seq}-0`, 'event', JSON.stringify(event))
+    }
+    // Keep numbering after the restored events so clients' last seen seq stays valid
+    pipeline.set(`room:${roomId}:seq`, events[events.length - 1].seq, 'NX')
+    await pipeline.exec()
+  }
+
+  async saveSession(session: Session, ttl?: number): Promise<void> {
+    if (ttl) {
+      this.liveSessions.delete(session.id)
+    } else {
+      this.liveSessions.add(session.id)
+    }
+    const expiry = ttl || this.liveSessionTtl
+    if (expiry) {
+      await this.redis.set(`session:${session.id}`, JSON.stringify(session), 'PX', expiry)
+    } else {
+      await this.redis.set(`session:${session.id}`, JSON.stringify(session))
+    }
+  }
+
+  async getSession(sessionId: string): Promise<Session | null> {
+    const data = await this.redis.get(`session:${sessionId}`)
+    return data ? JSON.parse(data) as Session : null
+  }
+
+  async deleteSession(sessionId: string): Promise<void> {
+    this.liveSessions.delete(sessionId)
+    await this.redis.del(`session:${sessionId}`)
+  }
+
+  async banUser(userId: string, roomId?: string, duration?: number): Promise<void> {
+    if (duration) {
+      await this.redis.set(banKey(userId, roomId), '1', 'PX', duration)
+    } else {
+      await this.redis.set(banKey(userId, roomId), '1')
+    }
+  }
+
+  async unbanUser(userId: string, roomId?: string): Promise<void> {
+    await this.redis.del(banKey(userId, roomId))
+  }
+
+  async isBanned(userId: string, roomId?: string): Promise<boolean> {
+    const keys = roomId === undefined ? [banKey(userId)] : [banKey(userId), banKey(userId, roomId)]
+    return await this.redis.exists(...keys) > 0
+  }
+
+  // Also extends this node's live sessions, which otherwise expire like the liveness key
+  async heartbeat(ttl: number): Promise<void> {
+    this.liveSessionTtl = ttl
+    const transaction = this.redis.multi()
+      .set(`node:${this.nodeId}:alive`, '1', 'PX', ttl)
+      .sadd('nodes', this.nodeId)
+    this.liveSessions.forEach(sessionId => transaction.pexpire(`session:${sessionId}`, ttl))
+    await transaction.exec()
+  }
+
+  // Removes users owned by nodes whose liveness key expired; returns the rooms that changed
+  async reapDeadNodes(): Promise<string[]> {
+    const affectedRooms = new Set<string>()
+    const nodes = await this.redis.smembers('nodes')
+
+    for (const node of nodes) {
+      if (node === this.nodeId || await this.redis.exists(`node:${node}:alive`)) continue
+      // Only the survivor that removes the node from the set cleans up after it
+      if (await this.redis.srem('nodes', node) === 0) continue
+
+      const members = await this.redis.smembers(`node:${node}:members`)
+      for (const member of members) {
+        const [roomId, userId, sessionId] = JSON.parse(member) as [string, string, string]
+        // The session may have been resumed through another node since
+        if (await this.redis.hget(`room:${roomId}:owners`, sessionId) !== node) continue
+        await this.removeMembers(roomId, userId, sessionId)
+        affectedRooms.add(roomId)
+      }
+      await this.redis.del(`node:${node}:members`)
+    }
+
+    return Array.from(affectedRooms)
+  }
+
+  async takeToken(key: string, rate: number, burst: number): Promise<number> {
+    return await this.redis.eval(TAKE_TOKEN_SCRIPT, 1, `ratelimit:${key}`, rate, burst) as number
   }
 
   async broadcast(roomId: string, message: ServerMessage): Promise<void> {
@@ -89,7 +359,20 @@ export class RedisAdapter implements Adapter {
     }
   }
 
+  async publishControl(message: ControlMessage): Promise<void> {
+    await this.pub.publish('control', JSON.stringify(message))
+  }
+
+  async subscribeControl(callback: (message: ControlMessage) => void): Promise<void> {
+    if (this.controlSubscribers.size === 0) {
+      await this.sub.subscribe('control')
+    }
+    this.controlSubscribers.add(callback)
+  }
+
+  // Survivors reap whatever this node still owns on their next heartbeat instead of waiting for the ttl
   async disconnect(): Promise<void> {
+    await this.redis.del(`node:${this.nodeId}:alive`)
     await Promise.all([
       this.redis.quit(),
       this.pub.quit(),
@@ -97,3 +380,7 @@ export class RedisAdapter implements Adapter {
     ])
   }
 }
+
+function banKey(userId: string, roomId?: string): string {
+  return roomId === undefined ? `ban:${userId}` : `room:${roomId}:ban:${userId}`
+}
@@ -0,0 +1,153 @@
+import type { IncomingMessage, ServerResponse } from 'http'
+import type { AdminConfig, CollabServer, ErrorCode, Logger } from './types.js'
+import { CollabError, ValidationError } from './errors.js'
+import { schema } from './schema.js'
+import type { Schema } from './schema.js'
+
+type AdminApi = Pick<CollabServer, 'listRooms' | 'getUsers' | 'kick' | 'ban' | 'unban' | 'closeRoom' | 'broadcast'>
+
+const MAX_BODY_BYTES = 64 * 1024
+
+const STATUS_BY_CODE: Partial<Record<ErrorCode, number>> = {
+  FORBIDDEN: 403,
+  USER_NOT_FOUND: 404,
+  NO_HANDLER: 404
+}
+
+const userId = schema.string({ min: 1, max: 256 })
+const roomId = schema.string({ min: 1, max: 256 }).optional()
+const reason = schema.string({ max: 1024 }).optional()
+
+const bodies = {
+  kick: schema.object({ userId, roomId, reason }),
+  ban: schema.object({ userId, roomId, reason, duration: schema.number({ min: 1, integer: true }).optional() }),
+  unban: schema.object({ userId, roomId }),
+  close: schema.object({ reason }),
+  broadcast: schema.object({ event: schema.string({ min: 1, max: 256 }), data: schema.unknown(), roomId })
+}
+
+/**
+ * JSON endpoints for operators, mounted under `config.path`:
+ *
+ *   GET  /rooms                 rooms and their user counts
+ *   GET  /rooms/:roomId/users   users in a room
+ *   POST /rooms/:roomId/close   remove everyone from a room
+ *   POST /kick, /ban, /unban    moderate a user in one room or on the whole server
+ *   POST /broadcast             send a system message to one room or to everyone
+ */
+export function createAdminHandler(api: AdminApi, config: AdminConfig, logger: Logger) {
+  const basePath = (config.path ?? '/admin').replace(/\/+$/, '')
+
+  async function route(request: IncomingMessage, segments: string[]): Promise<unknown> {
+    const [resource, id, action] = segments
+
+    if (resource === 'rooms') {
+      if (request.method === 'GET' && segments.length === 1) {
+        return { rooms: await api.listRooms() }
+      }
+      if (request.method === 'GET' && segments.length === 3 && action === 'users') {
+        return { users: await api.getUsers(id) }
+      }
+      if (request.method === 'POST' && segments.length === 3 && action === 'close') {
+        const body = parse(bodies.close, await readBody(request))
+        await api.closeRoom(id, body.reason)
+        return { ok: true }
+      }
+    }
+
+    if (request.method === 'POST' && segments.length === 1) {
+      switch (resource) {
+        case 'kick': {
+          const { userId, ...options } = parse(bodies.kick, await readBody(request))
+          await api.kick(userId, options)
+          return { ok: true }
+        }
+        case 'ban': {
+          const { userId, ...options } = parse(bodies.ban, await readBody(request))
+          await api.ban(userId, options)
+          return { ok: true }
+        }
+        case 'unban': {
+          const { userId, ...options } = parse(bodies.unban, await readBody(request))
+          await api.unban(userId, options)
+          return { ok: true }
+        }
+        case 'broadcast': {
+          const { event, data, roomId } = parse(bodies.broadcast, await readBody(request))
+          await api.broadcast(event, data, { roomId })
+          return { ok: true }
+        }
+      }
+    }
+
+    throw new CollabError('NO_HANDLER', `No admin endpoint for ${request.method} /${segments.join('/')}.`)
+  }
+
+  // Resolves to false when the request is outside the admin path, so callers can handle it themselves
+  return async function handleAdminRequest(request: IncomingMessage, response: ServerResponse): Promise<boolean> {
+    const { pathname } = new URL(request.url ?? '/', 'http://localhost')
+    if (pathname !== basePath && !pathname.startsWith(`${basePath}/`)) return false
+
+    try {
+      if (!(await config.authorize(request))) {
+        throw new CollabError('FORBIDDEN', 'Not authorized to use the admin API.')
+      }
+      const segments = pathname.slice(basePath.length).split('/').filter(Boolean).map(decodeSegment)
+      respond(response, 200, await route(request, segments))
+    } catch (error) {
+      if (error instanceof CollabError) {
+        respond(response, STATUS_BY_CODE[error.code] ?? 400, {
+          code: error.code,
+          error: error.message,
+          issues: error instanceof ValidationError ? error.issues : undefined
+        })
+      } else {
+        logger.error('Admin request failed', { method: request.method, path: pathname, error })
+        respond(response, 500, { code: 'INTERNAL_ERROR', error: 'Internal server error.' })
+      }
+    }
+    return true
+  }
+}
+
+// Malformed escapes are the client's mistake, so they are a 400 rather than a URIError
+function decodeSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment)
+  } catch {
+    throw new CollabError('INVALID_MESSAGE', `Malformed path segment ${segment}.`)
+  }
+}
+
+function parse<T>(bodySchema: Schema<T>, value: unknown): T {
+  const result = bodySchema.validate(value)
+  if (!result.success) {
+    throw new ValidationError('INVALID_PAYLOAD', 'Invalid request body.', result.issues)
+  }
+  return result.value
+}
+
+async function readBody(request: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = []
+  let size = 0
+  for await (const chunk of request) {
+    size += chunk.length
+    if (size > MAX_BODY_BYTES) {
+      throw new CollabError('INVALID_MESSAGE', 'Request body is too large.')
+    }
+    chunks.push(chunk)
+  }
+  const text = Buffer.concat(chunks).toString()
+  if (text.trim() === '') return {}
+  try {
+    return JSON.parse(text)
+  } catch {
+    throw new CollabError('INVALID_MESSAGE', 'Request body is not valid json.')
+  }
+}
+
+function respond(response: ServerResponse, status: number, body: unknown): void {
+  const json = JSON.stringify(body)
+  response.writeHead(status, { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(json) })
+  response.end(json)
+}
@@ -1,6 +1,33 @@
-import type { ClientConfig, CollabClient, ServerMessage, ClientMessage, ReconnectConfig } from './types.js'
+import { CollabDoc } from './crdt.js'
+import { CollabError, ValidationError, RateLimitError, FATAL_CLOSE_CODES, FATAL_ERROR_CODES } from './errors.js'
+import { codecs, codecForProtocol, jsonCodec } from './codecs/index.js'
+import { createConsoleLogger } from './logger.js'
+import type { ClientConfig, ClientMessage, DropReason, QueueableType, QueuePolicy, CollabClient, CollabErrorEvent, ErrorCode, CollabRoom, ClientEventType, ConnectionState, Unsubscribe, WebSocketLike, WebSocketConstructor, ServerMessage, MessageType, ClientMessageOf, ReconnectConfig, Codec, User, BroadcastOptions, RequestOptions, PresenceState, PresencePatch, Activity } from './types.js'
 
-export function createCollabClient(config: ClientConfig): CollabClient {
+// The parts of the DOM document used to track activity; the client also runs outside browsers
+interface ActivityDocument {
+  visibilityState: string
+  addEventListener(type: string, listener: () => void, options?: { passive: boolean }): void
+  removeEventListener(type: string, listener: () => void): void
+}
+
+// readyState values, which every WebSocket implementation shares
+const CONNECTING = 0
+const OPEN = 1
+
+const DEFAULT_QUEUE_POLICIES: Record<QueueableType, QueuePolicy> = {
+  cursor: 'latest',
+  typing: 'latest',
+  custom: 'buffer',
+  kick: 'buffer'
+}
+
+type QueueableMessage = ClientMessageOf<QueueableType>
+
+// Input that counts as the user being active
+const ACTIVITY_EVENTS = ['mousemove', 'keydown', 'pointerdown', 'scroll', 'touchstart']
+
+export function createCollabClient<P extends PresenceState = PresenceState>(config: ClientConfig): CollabClient<P> {
   const { 
     url, 
     token, 
@@ -8,20 +35,75 @@ export function createCollabClient(config: ClientConfig): CollabClient {
     metadata,
     reconnect: reconnectConfig = { enabled: true },
     throttleCursor = 50, // Default: throttle cursor to max 20 updates/sec
-    heartbeatInterval = 30000 // Default: 30 seconds
+    heartbeatInterval = 30000, // Default: 30 seconds
+    history = false,
+    codec: codecName = 'json',
+    device,
+    idleTimeout = 60000,
+    headers,
+    protocols: extraProtocols = [],
+    offlineQueue = {},
+    // Connection chatter is debug level, so by default only problems reach the console
+    logger = createConsoleLogger('warn')
   } = config
 
-  let ws: WebSocket | null = null
+  const WebSocketImpl = resolveWebSocket(config.WebSocket)
+  let ws: WebSocketLike | null = null
+  // Codec the server picked from the subprotocols we offered
+  let codec: Codec = jsonCodec
+  const protocols = Array.from(new Set([codecs[codecName].protocol, jsonCodec.protocol, ...extraProtocols]))
   const listeners: Record<string, Array<(data: ServerMessage) => void>> = {}
-  let currentRoomId = roomId
-  let connectionState: 'connecting' | 'connected' | 'disconnected' | 'reconnecting' = 'connecting'
+  // Rooms this client is subscribed to, in join order; the first one is the default
+  const rooms = new Set<string>([roomId])
+  let connectionState: ConnectionState = 'connecting'
   let reconnectAttempts = 0
   let reconnectTimer: ReturnType<typeof setTimeout> | null = null
   let heartbeatTimer: ReturnType<typeof setInterval> | null = null
   let lastCursorUpdate = 0
   let cursorThrottleTimer: ReturnType<typeof setTimeout> | null = null
-  let pendingCursorPosition: { x: number; y: number } | null = null
+  const pendingCursorPositions = new Map<string, { x: number; y: number }>()
+  const docs = new Map<string, CollabDoc>()
+  // Presence state restored after a reconnect
+  const lastCursorPositions = new Map<string, { x: number; y: number }>()
+  const typingRooms = new Set<string>()
+  const ownPresence = new Map<string, PresenceState>()
+  // Presence patches waiting for the throttle, with null marking removed keys
+  const pendingPresence = new Map<string, PresenceState>()
+  let lastPresenceUpdate = 0
+  let presenceThrottleTimer: ReturnType<typeof setTimeout> | null = null
+  // Activity is only tracked in browsers, from input events and page visibility
+  const activityDocument = idleTimeout > 0 ? (globalThis as { document?: ActivityDocument }).document : undefined
+  let activity: Activity = 'active'
+  let lastInput = Date.now()
+  let idleTimer: ReturnType<typeof setTimeout> | null = null
+  // Rooms left while offline; a resumed session would otherwise bring them back
+  const pendingLeaves = new Set<string>()
+  let sessionId: string | null = null
+  let userId: string | null = null
+  // Highest custom event seq seen per room, used to replay what was missed on rejoin
+  const lastSeqs = new Map<string, number>()
+  // Seq of the first event delivered live since each room was joined. The server subscribes
+  // before it replays, so replayed events from there on have already arrived.
+  const firstLiveSeqs = new Map<string, number>()
+  // Last known users per room, so compact cursor messages can be turned back into full updates
+  const roomUsers = new Map<string, Map<string, User>>()
+  // Requests and acked broadcasts waiting for their response, by request id
+  const pendingRequests = new Map<string, { resolve: (data: unknown) => void; reject: (error: Error) => void; timer: ReturnType<typeof setTimeout> }>()
+  let nextRequestId = 0
   let shouldReconnect = true
+  // Delay the server asked for before it went away, used instead of the backoff for the next reconnect
+  let reconnectHint: number | null = null
+  // Messages sent before the server confirmed our session, sent in order once it has
+  const outbox: Array<{ message: QueueableMessage; key?: string; expiresAt?: number }> = []
+  const { maxSize: maxQueueSize = 100, ttl: queueTtl } = offlineQueue || {}
+  const queuePolicies: Record<QueueableType, QueuePolicy> = offlineQueue === false
+    ? { cursor: 'drop', typing: 'drop', custom: 'drop', kick: 'drop' }
+    : { ...DEFAULT_QUEUE_POLICIES, ...offlineQueue.policies }
+  let lastQueueSize = 0
+  // Set once the server has confirmed the session on the current socket
+  let ready = false
+  // Latest static token, replaced by reauth(token); a token provider is asked anew every time
+  let currentToken = typeof token === 'string' ? token : undefined
 
   // Normalize reconnect config
   const reconnect: ReconnectConfig = typeof reconnectConfig === 'boolean'
@@ -34,11 +116,12 @@ export function createCollabClient(config: ClientConfig): CollabClient {
         backoffFactor: reconnectConfig?.backoffFactor ?? 2
       }
 
-  function setState(newState: typeof connectionState) {
+  function setState(newState: ConnectionState) {
     if (connectionState !== newState) {
       const oldState = connectionState
       connectionState = newState
-      
+      emit('state', { type: 'state', state: newState })
+
       if (newState === 'connected' && oldState !== 'connected') {
         emit('connected', { type: 'connected' } as ServerMessage)
       } else if (newState === 'disconnected' && oldState !== 'disconnected') {
@@ -53,18 +136,24 @@ export function createCollabClient(config: ClientConfig): CollabClient {
     }
   }
 
+  function emitError(code: ErrorCode, error: string, details?: ServerMessage) {
+    const event: CollabErrorEvent = { ...details, type: 'error', code, error, fatal: FATAL_ERROR_CODES.has(code) }
+    emit('error', event)
+  }
+
   function connect() {
-    if (ws?.readyState === WebSocket.OPEN || ws?.readyState === WebSocket.CONNECTING) {
+    if (ws?.readyState === OPEN || ws?.readyState === CONNECTING) {
       return
     }
 
     try {
-      ws = new WebSocket(url)
+      ws = headers ? new WebSocketImpl(url, protocols, { headers }) : new WebSocketImpl(url, protocols)
+      ws.binaryType = 'arraybuffer'
       setState(reconnectAttempts > 0 ? 'reconnecting' : 'connecting')
 
-      ws.onmessage = (event: MessageEvent) => {
+      ws.onmessage = (event: { data: string | ArrayBuffer }) => {
         try {
-          const raw = JSON.parse(event.data) as ServerMessage & { _excludeUserId?: string }
+          const raw = codec.decode(typeof event.data === 'string' ? event.data : new Uint8Array(event.data)) as ServerMessage
           const { _excludeUserId: _, ...data } = raw
           const payload = data as ServerMessage
 
@@ -75,84 +164,190 @@ export function createCollabClient(config: ClientConfig): CollabClient {
           if (payload.type === 'pong') {
             return
           }
-
-          if (listeners[payload.type]) {
-            listeners[payload.type].forEach((cb) => cb(payload))
+          if (payload.type === 'response' && payload.requestId) {
+            const pending = pendingRequests.get(payload.requestId)
+            if (!pending) return
+            pendingRequests.delete(payload.requestId)
+            clearTimeout(pending.timer)
+            if (payload.error) {
+              pending.reject(responseError(payload))
+            } else {
+              pending.resolve(payload.data)
+            }
+            return
+          }
+          if (payload.type === 'session' && payload.sessionId) {
+            // Only a successful join counts as reconnected, so failing joins keep backing off
+            reconnectAttempts = 0
+            sessionId = payload.sessionId
+            userId = payload.userId ?? null
+            // The server handles messages in order, so these land after the joins sent before them
+            ready = true
+            restoreState()
+            flushQueue()
+          }
+          if (payload.type === 'going-away') {
+            reconnectHint = payload.retryAfter ?? 0
+          }
+          if (payload.type === 'auth-expiring' && typeof token === 'function') {
+            reauth().catch((error: CollabError) => emitError(error.code ?? 'TOKEN_UNAVAILABLE', error.message))
+          }
+          if (payload.type === 'custom' && payload.roomId && payload.seq !== undefined) {
+            const firstLive = firstLiveSeqs.get(payload.roomId)
+            if (payload.replayed && firstLive !== undefined && payload.seq >= firstLive) return
+            if (!payload.replayed && firstLive === undefined) firstLiveSeqs.set(payload.roomId, payload.seq)
+            lastSeqs.set(payload.roomId, Math.max(lastSeqs.get(payload.roomId) ?? 0, payload.seq))
+          }
+          // Compact cursor messages and batched patches are expanded into one update per user
+          if (payload.type === 'cursor' && payload.roomId && payload.userId) {
+            applyUserChanges(payload.roomId, payload.userId, { cursor: payload.position ?? null })
+            return
+          }
+          if (payload.type === 'update' && payload.roomId && payload.patches) {
+            for (const { id, ...changes } of payload.patches) {
+              applyUserChanges(payload.roomId, id, changes)
+            }
+            return
+          }
+          if (payload.type === 'presence' && payload.roomId) {
+            roomUsers.set(payload.roomId, new Map((payload.users ?? []).map(user => [user.id, user])))
+            // A room joined without a seq resumes from the one it was joined at; one that has
+            // a seq keeps it until replayed events move it on
+            if (payload.seq !== undefined && rooms.has(payload.roomId) && !lastSeqs.has(payload.roomId)) {
+              lastSeqs.set(payload.roomId, payload.seq)
+            }
           }
-          if (payload.type === 'error' && listeners['error']) {
-            listeners['error'].forEach((cb) => cb(payload))
+          if (payload.type === 'update' && payload.roomId && payload.user) {
+            roomUsers.get(payload.roomId)?.set(payload.user.id, payload.user)
           }
+          if (payload.type === 'kicked' && payload.roomId) {
+            discardQueued(payload.roomId)
+            rooms.delete(payload.roomId)
+            firstLiveSeqs.delete(payload.roomId)
+            roomUsers.delete(payload.roomId)
+            lastCursorPositions.delete(payload.roomId)
+            typingRooms.delete(payload.roomId)
+            ownPresence.delete(payload.roomId)
+            pendingPresence.delete(payload.roomId)
+          }
+          if ((payload.type === 'doc-sync' || payload.type === 'doc-update') && payload.roomId) {
+            docs.get(payload.roomId)?.applyUpdate(payload.update ?? [], 'remote')
+          }
+
+          if (payload.type === 'error') {
+            emitError(payload.code ?? 'INTERNAL_ERROR', payload.error ?? 'Unknown error', payload)
+            return
+          }
+
+          emit(payload.type, payload)
         } catch (error) {
-          console.error('Failed to parse message:', error)
+          logger.error('Failed to parse message', { error })
         }
       }
 
-      ws.onerror = (error) => {
-        console.error('WebSocket error:', error)
-        if (listeners['error']) {
-          listeners['error'].forEach((cb) => cb({ 
-            type: 'error', 
-            error: 'WebSocket connection error' 
-          }))
-        }
+      ws.onerror = (error: unknown) => {
+        logger.warn('WebSocket error', { error })
+        emitError('CONNECTION_ERROR', 'WebSocket connection error')
       }
 
       ws.onopen = () => {
-        reconnectAttempts = 0
-        setState('connected')
-        console.log('WebSocket connected, sending join message...')
-        
-        // Authenticate and join room
-        if (token) {
-          sendMessage('join', {
-            token,
-            roomId: currentRoomId,
-            metadata
-          })
-        } else {
-          sendMessage('join', {
-            roomId: currentRoomId,
-            metadata
-          })
-        }
+        const socket = ws!
+        codec = codecForProtocol(socket.protocol) ?? jsonCodec
 
-        // Start heartbeat
-        startHeartbeat()
+        // Nothing is sent until the join, which waits for the token provider
+        resolveToken().then(
+          (current) => {
+            if (ws !== socket || socket.readyState !== OPEN) return
+            setState('connected')
+            logger.debug('Connected, joining', { rooms: Array.from(rooms) })
+            rejoin(current)
+          },
+          (error: CollabError) => {
+            // Reconnecting with backoff gives the provider another chance
+            emitError(error.code, error.message)
+            socket.close()
+          }
+        )
       }
 
-      ws.onclose = (event) => {
+      ws.onclose = (event: { code: number }) => {
+        ready = false
         setState('disconnected')
         stopHeartbeat()
+
+        // Responses are tied to the socket, so nothing pending can be answered any more
+        pendingRequests.forEach(({ reject, timer }, requestId) => {
+          clearTimeout(timer)
+          discardRequest(requestId)
+          reject(new CollabError('NOT_CONNECTED', 'Connection closed before a response arrived.'))
+        })
+        pendingRequests.clear()
+
+        // The server already sent the reason as an error; new credentials need a new client
+        if (FATAL_CLOSE_CODES.has(event.code)) {
+          shouldReconnect = false
+        }
         
         // Only reconnect if we should (not manually disconnected)
         if (shouldReconnect && reconnect.enabled && reconnectAttempts < (reconnect.maxRetries ?? 10)) {
-          const delay = Math.min(
+          const delay = reconnectHint ?? Math.min(
             (reconnect.initialDelay ?? 1000) * Math.pow(reconnect.backoffFactor ?? 2, reconnectAttempts),
             reconnect.maxDelay ?? 30000
           )
+          reconnectHint = null
           
           reconnectAttempts++
-          console.log(`Connection closed. Reconnecting in ${delay}ms (attempt ${reconnectAttempts})...`)
+          logger.debug('Connection closed, reconnecting', { code: event.code, delay, attempt: reconnectAttempts })
           
           reconnectTimer = setTimeout(() => {
             connect()
           }, delay)
-        } else if (reconnectAttempts >= (reconnect.maxRetries ?? 10)) {
-          console.error('Max reconnection attempts reached')
-          emit('error', { type: 'error', error: 'Max reconnection attempts reached' })
+          return
+        }
+        // Nothing queued would ever be sent
+        clearQueue('disconnected')
+        if (reconnectAttempts >= (reconnect.maxRetries ?? 10)) {
+          logger.error('Max reconnection attempts reached', { attempts: reconnectAttempts })
+          emitError('RECONNECT_FAILED', 'Max reconnection attempts reached')
         }
       }
     } catch (error) {
-      console.error('Failed to create WebSocket:', error)
+      logger.error('Failed to create WebSocket', { error })
       setState('disconnected')
     }
   }
 
+  // Authenticate (resuming our session if we had one) with the first room, then resubscribe to the rest
+  function rejoin(current: string | undefined) {
+    const [firstRoomId, ...otherRoomIds] = Array.from(rooms)
+    firstLiveSeqs.clear()
+    sendMessage('join', {
+      token: current,
+      roomId: firstRoomId,
+      metadata,
+      since: sinceFor(firstRoomId),
+      resume: sessionId ?? undefined,
+      device
+    })
+    otherRoomIds.forEach(id => sendMessage('join', { roomId: id, since: sinceFor(id) }))
+    pendingLeaves.forEach(id => sendMessage('leave', { roomId: id }))
+    pendingLeaves.clear()
+    rooms.forEach(id => restorePresence(id))
+
+    // Push edits made while offline and pull what we missed
+    docs.forEach((doc, id) => {
+      if (rooms.has(id)) sendMessage('doc-sync', { roomId: id, update: doc.encodeState() })
+    })
+
+    // Start heartbeat
+    startHeartbeat()
+  }
+
   function startHeartbeat() {
     if (heartbeatInterval > 0) {
       stopHeartbeat()
       heartbeatTimer = setInterval(() => {
-        if (ws?.readyState === WebSocket.OPEN) {
+        if (ws?.readyState === OPEN) {
           sendMessage('ping', {})
         }
       }, heartbeatInterval)
@@ -166,64 +361,443 @@ export function createCollabClient(config: ClientConfig): CollabClient {
     }
   }
 
-  function sendMessage(type: ClientMessage['type'], payload: Partial<ClientMessage>): void {
-    if (ws?.readyState === WebSocket.OPEN) {
+  // Queueable messages wait until the session is confirmed; others are only sent while connected
+  function sendMessage<T extends MessageType>(type: T, payload: Omit<ClientMessageOf<T>, 'type'>): void {
+    const message = { type, ...payload } as ClientMessage
+    if (isQueueable(message) && (!ready || outbox.length > 0)) {
+      enqueue(message)
+    } else {
+      transmit(message)
+    }
+  }
+
+  function isConnected(): boolean {
+    return connectionState === 'connected' && ws?.readyState === OPEN
+  }
+
+  function transmit(message: ClientMessage): void {
+    if (isConnected()) {
       try {
-        ws.send(JSON.stringify({ type, ...payload } as ClientMessage))
+        ws!.send(codec.encode(message))
       } catch (error) {
-        console.error('Failed to send message:', error)
+        logger.error('Failed to send message', { type: message.type, error })
+      }
+    }
+  }
+
+  function isQueueable(message: ClientMessage): message is QueueableMessage {
+    return Object.hasOwn(queuePolicies, message.type)
+  }
+
+  function enqueue(message: QueueableMessage): void {
+    const policy = queuePolicies[message.type]
+    if (policy === 'drop') {
+      emitDropped(message, 'offline')
+      return
+    }
+    if (policy === 'latest') {
+      // The newest value takes the place of the one it replaces
+      const key = `${message.type}:${message.roomId ?? ''}`
+      const queued = outbox.find(entry => entry.key === key)
+      if (queued) {
+        queued.message = message
+      } else {
+        outbox.push({ message, key })
+      }
+    } else {
+      outbox.push({ message, expiresAt: queueTtl === undefined ? undefined : Date.now() + queueTtl })
+    }
+    if (outbox.length > maxQueueSize) {
+      emitDropped(outbox.shift()!.message, 'overflow')
+    }
+    emitQueueSize()
+  }
+
+  function flushQueue(): void {
+    const now = Date.now()
+    for (const { message, expiresAt } of outbox.splice(0)) {
+      if (expiresAt !== undefined && expiresAt <= now) {
+        emitDropped(message, 'expired')
+      } else {
+        transmit(message)
+      }
+    }
+    emitQueueSize()
+  }
+
+  // Queued messages for a room we are no longer in would only be rejected
+  function discardQueued(targetRoomId: string): void {
+    for (let i = outbox.length - 1; i >= 0; i--) {
+      if (outbox[i].message.roomId === targetRoomId) {
+        emitDropped(outbox.splice(i, 1)[0].message, 'left')
+      }
+    }
+    emitQueueSize()
+  }
+
+  // A request its caller has already seen fail must not be sent after all
+  function discardRequest(requestId: string): void {
+    const index = outbox.findIndex(entry => 'requestId' in entry.message && entry.message.requestId === requestId)
+    if (index === -1) return
+    outbox.splice(index, 1)
+    emitQueueSize()
+  }
+
+  function clearQueue(reason: DropReason): void {
+    outbox.splice(0).forEach(({ message }) => emitDropped(message, reason))
+    emitQueueSize()
+  }
+
+  function emitDropped(message: ClientMessage, reason: DropReason): void {
+    logger.debug('Dropped message', { type: message.type, reason })
+    emit('dropped', { type: 'dropped', dropped: message, reason })
+  }
+
+  function emitQueueSize(): void {
+    if (outbox.length === lastQueueSize) return
+    lastQueueSize = outbox.length
+    emit('queue', { type: 'queue', queueSize: outbox.length })
+  }
+
+  // Cursors and typing are sent again in case the session couldn't be resumed; newer queued values win
+  function restoreState(): void {
+    const queued = new Set(outbox.map(entry => entry.key))
+    lastCursorPositions.forEach((position, id) => {
+      if (!queued.has(`cursor:${id}`)) transmit({ type: 'cursor', position, roomId: id })
+    })
+    typingRooms.forEach(id => {
+      if (!queued.has(`typing:${id}`)) transmit({ type: 'typing', isTyping: true, roomId: id })
+    })
+  }
+
+  function call<T extends 'custom' | 'request' | 'reauth'>(type: T, payload: Omit<ClientMessageOf<T>, 'type' | 'requestId'>, timeout = 10000): Promise<unknown> {
+    if (!isConnected()) {
+      return Promise.reject(new CollabError('NOT_CONNECTED', 'Not connected.'))
+    }
+    const requestId = String(++nextRequestId)
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        pendingRequests.delete(requestId)
+        discardRequest(requestId)
+        reject(new CollabError('TIMEOUT', `No response to ${'event' in payload ? payload.event : type} within ${timeout}ms.`))
+      }, timeout)
+      pendingRequests.set(requestId, { resolve, reject, timer })
+      sendMessage(type, { ...payload, requestId } as Omit<ClientMessageOf<T>, 'type'>)
+    })
+  }
+
+  function request<T>(event: string, data: unknown, options: RequestOptions = {}, targetRoomId = defaultRoomId()): Promise<T> {
+    return call('request', { event, data, roomId: targetRoomId }, options.timeout) as Promise<T>
+  }
+
+  async function resolveToken(): Promise<string | undefined> {
+    if (typeof token !== 'function') return currentToken
+    try {
+      return await token()
+    } catch (error) {
+      throw new CollabError('TOKEN_UNAVAILABLE', `Token provider failed: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  // Swaps the connection's credentials without reconnecting; defaults to the token provider's next token
+  async function reauth(newToken?: string): Promise<void> {
+    if (newToken !== undefined) currentToken = newToken
+    const current = newToken ?? await resolveToken()
+    if (!current) {
+      throw new CollabError('TOKEN_UNAVAILABLE', 'No token to reauthenticate with.')
+    }
+    await call('reauth', { token: current })
+  }
+
+  function broadcaster(resolveRoomId: () => string | undefined): CollabClient['broadcast'] {
+    function broadcast(event: string, data?: unknown): void
+    function broadcast(event: string, data: unknown, options: BroadcastOptions): Promise<void>
+    function broadcast(event: string, data?: unknown, options?: BroadcastOptions): Promise<void> | void {
+      const payload = { event, data, roomId: resolveRoomId() }
+      if (options?.ack) {
+        return call('custom', payload, options.timeout).then(() => undefined)
+      }
+      sendMessage('custom', payload)
+    }
+    return broadcast
+  }
+
+  function directSender(resolveRoomId: () => string | undefined): CollabClient['sendTo'] {
+    function sendTo(userId: string, event: string, data?: unknown): void
+    function sendTo(userId: string, event: string, data: unknown, options: BroadcastOptions): Promise<void>
+    function sendTo(userId: string, event: string, data?: unknown, options?: BroadcastOptions): Promise<void> | void {
+      const payload = { event, data, targetUserId: userId, roomId: resolveRoomId() }
+      if (options?.ack) {
+        return call('custom', payload, options.timeout).then(() => undefined)
       }
+      sendMessage('custom', payload)
     }
+    return sendTo
   }
 
-  function on(type: 'presence' | 'update' | 'error' | 'connected' | 'disconnected' | 'custom', callback: (data: ServerMessage) => void): void {
+  function applyUserChanges(targetRoomId: string, userId: string, changes: Partial<User>) {
+    const users = roomUsers.get(targetRoomId)
+    const user = users?.get(userId)
+    // Until presence arrives there is no user to attach the changes to
+    if (!users || !user) return
+    const updated = { ...user, ...changes }
+    users.set(userId, updated)
+    emit('update', { type: 'update', roomId: targetRoomId, user: updated })
+  }
+
+  function on(type: 'error', callback: (error: CollabErrorEvent) => void): Unsubscribe
+  function on(type: ClientEventType, callback: (data: ServerMessage<P>) => void): Unsubscribe
+  function on(type: ClientEventType, callback: ((data: ServerMessage<P>) => void) | ((error: CollabErrorEvent) => void)): Unsubscribe {
     listeners[type] = listeners[type] || []
-    listeners[type].push(callback)
+    // 'error' listeners are only ever called with error events, and presence is typed by the application
+    listeners[type].push(callback as (data: ServerMessage) => void)
+    return () => off(type, callback as (data: ServerMessage<P>) => void)
+  }
+
+  function off(type: 'error', callback: (error: CollabErrorEvent) => void): void
+  function off(type: ClientEventType, callback: (data: ServerMessage<P>) => void): void
+  function off(type: ClientEventType, callback: ((data: ServerMessage<P>) => void) | ((error: CollabErrorEvent) => void)): void {
+    const current = listeners[type] ?? []
+    const index = current.indexOf(callback as (data: ServerMessage) => void)
+    // Replaced rather than spliced, so a listener removing itself doesn't make emit skip the next one
+    if (index !== -1) listeners[type] = current.filter((_, i) => i !== index)
+  }
+
+  function getUsers(targetRoomId = defaultRoomId()): User<P>[] {
+    const users = targetRoomId ? roomUsers.get(targetRoomId) : undefined
+    return users ? Array.from(users.values()) as User<P>[] : []
+  }
+
+  function defaultRoomId(): string | undefined {
+    return rooms.values().next().value
   }
 
   function flushCursorUpdate() {
-    if (pendingCursorPosition) {
-      sendMessage('cursor', { position: pendingCursorPosition, roomId: currentRoomId })
-      pendingCursorPosition = null
+    pendingCursorPositions.forEach((position, id) => {
+      sendMessage('cursor', { position, roomId: id })
+      lastCursorPositions.set(id, position)
+    })
+    pendingCursorPositions.clear()
+  }
+
+  function cursor(position: { x: number; y: number }, targetRoomId = defaultRoomId()) {
+    if (!targetRoomId) return
+    noteInput()
+    const now = Date.now()
+    pendingCursorPositions.set(targetRoomId, position)
+
+    if (now - lastCursorUpdate >= throttleCursor) {
+      flushCursorUpdate()
+      lastCursorUpdate = now
+    } else {
+      // Clear existing timer and set new one
+      if (cursorThrottleTimer) {
+        clearTimeout(cursorThrottleTimer)
+      }
+      cursorThrottleTimer = setTimeout(flushCursorUpdate, throttleCursor - (now - lastCursorUpdate))
+    }
+  }
+
+  function flushPresenceUpdate() {
+    presenceThrottleTimer = null
+    pendingPresence.forEach((patch, id) => {
+      sendMessage('set-presence', { presence: patch, roomId: id })
+    })
+    pendingPresence.clear()
+  }
+
+  // Patches are merged and sent at most once per throttleCursor ms, like cursor moves
+  function setPresence(patch: PresencePatch<P>, targetRoomId = defaultRoomId()) {
+    if (!targetRoomId) return
+    const own = { ...ownPresence.get(targetRoomId) }
+    for (const [key, value] of Object.entries(patch)) {
+      if (value === undefined) continue
+      if (value === null) {
+        delete own[key]
+      } else {
+        own[key] = value
+      }
+    }
+    ownPresence.set(targetRoomId, own)
+    pendingPresence.set(targetRoomId, { ...pendingPresence.get(targetRoomId), ...patch } as PresenceState)
+
+    const now = Date.now()
+    if (now - lastPresenceUpdate >= throttleCursor) {
+      if (presenceThrottleTimer) clearTimeout(presenceThrottleTimer)
+      flushPresenceUpdate()
+      lastPresenceUpdate = now
+    } else if (!presenceThrottleTimer) {
+      presenceThrottleTimer = setTimeout(() => {
+        flushPresenceUpdate()
+        lastPresenceUpdate = Date.now()
+      }, throttleCursor - (now - lastPresenceUpdate))
+    }
+  }
+
+  // The whole state is sent, since a new session on the server starts without any
+  function restorePresence(targetRoomId: string) {
+    const own = ownPresence.get(targetRoomId)
+    pendingPresence.delete(targetRoomId)
+    if (own || activityDocument) {
+      sendMessage('set-presence', { presence: own, activity: activityDocument ? activity : undefined, roomId: targetRoomId })
+    }
+  }
+
+  function setActivity(next: Activity) {
+    if (next === activity) return
+    activity = next
+    rooms.forEach(id => sendMessage('set-presence', { activity, roomId: id }))
+  }
+
+  function noteInput() {
+    if (!activityDocument) return
+    lastInput = Date.now()
+    if (activity === 'idle') setActivity('active')
+    idleTimer ??= setTimeout(checkIdle, idleTimeout)
+  }
+
+  function checkIdle() {
+    const idleFor = Date.now() - lastInput
+    if (idleFor < idleTimeout) {
+      idleTimer = setTimeout(checkIdle, idleTimeout - idleFor)
+      return
+    }
+    idleTimer = null
+    if (activity === 'active') setActivity('idle')
+  }
+
+  function onVisibilityChange() {
+    if (activityDocument?.visibilityState === 'hidden') {
+      setActivity('away')
+    } else {
+      lastInput = Date.now()
+      setActivity('active')
+      idleTimer ??= setTimeout(checkIdle, idleTimeout)
+    }
+  }
+
+  function startActivityTracking() {
+    if (!activityDocument) return
+    ACTIVITY_EVENTS.forEach(type => activityDocument.addEventListener(type, noteInput, { passive: true }))
+    activityDocument.addEventListener('visibilitychange', onVisibilityChange)
+    if (activityDocument.visibilityState === 'hidden') activity = 'away'
+    idleTimer = setTimeout(checkIdle, idleTimeout)
+  }
+
+  function stopActivityTracking() {
+    if (!activityDocument) return
+    ACTIVITY_EVENTS.forEach(type => activityDocument.removeEventListener(type, noteInput))
+    activityDocument.removeEventListener('visibilitychange', onVisibilityChange)
+    if (idleTimer) {
+      clearTimeout(idleTimer)
+      idleTimer = null
+    }
+  }
+
+  // Rejoins resume after the last seen event; first joins replay everything only if asked to
+  function sinceFor(targetRoomId: string): number | undefined {
+    return lastSeqs.get(targetRoomId) ?? (history ? 0 : undefined)
+  }
+
+  function joinRoom(newRoomId: string) {
+    rooms.add(newRoomId)
+    pendingLeaves.delete(newRoomId)
+    firstLiveSeqs.delete(newRoomId)
+    sendMessage('join', { roomId: newRoomId, since: sinceFor(newRoomId) })
+    restorePresence(newRoomId)
+  }
+
+  function leaveRoom(targetRoomId = defaultRoomId()) {
+    if (!targetRoomId) return
+    rooms.delete(targetRoomId)
+    lastSeqs.delete(targetRoomId)
+    firstLiveSeqs.delete(targetRoomId)
+    roomUsers.delete(targetRoomId)
+    pendingCursorPositions.delete(targetRoomId)
+    lastCursorPositions.delete(targetRoomId)
+    typingRooms.delete(targetRoomId)
+    ownPresence.delete(targetRoomId)
+    pendingPresence.delete(targetRoomId)
+    discardQueued(targetRoomId)
+    // Until the join is sent on connect, the leave has to wait for it
+    if (isConnected()) {
+      sendMessage('leave', { roomId: targetRoomId })
+    } else {
+      pendingLeaves.add(targetRoomId)
+    }
+  }
+
+  function typing(isTyping: boolean, targetRoomId = defaultRoomId()) {
+    if (!targetRoomId) return
+    noteInput()
+    if (isTyping) {
+      typingRooms.add(targetRoomId)
+    } else {
+      typingRooms.delete(targetRoomId)
+    }
+    sendMessage('typing', { isTyping, roomId: targetRoomId })
+  }
+
+  function doc(targetRoomId = defaultRoomId() ?? roomId): CollabDoc {
+    let shared = docs.get(targetRoomId)
+    if (!shared) {
+      shared = new CollabDoc()
+      shared.subscribe(({ origin, update }) => {
+        if (origin === 'local') sendMessage('doc-update', { roomId: targetRoomId, update })
+      })
+      docs.set(targetRoomId, shared)
+      sendMessage('doc-sync', { roomId: targetRoomId })
+    }
+    return shared
+  }
+
+  function room(scopedRoomId: string): CollabRoom<P> {
+    return {
+      id: scopedRoomId,
+      on: (type, callback) => on(type, (data) => {
+        if (data.roomId === scopedRoomId) callback(data)
+      }),
+      cursor: (position) => cursor(position, scopedRoomId),
+      typing: (isTyping) => typing(isTyping, scopedRoomId),
+      setPresence: (patch) => setPresence(patch, scopedRoomId),
+      broadcast: broadcaster(() => scopedRoomId),
+      request: (event, data, options) => request(event, data, options, scopedRoomId),
+      sendTo: directSender(() => scopedRoomId),
+      kick: (userId) => sendMessage('kick', { targetUserId: userId, roomId: scopedRoomId }),
+      doc: () => doc(scopedRoomId),
+      getUsers: () => getUsers(scopedRoomId),
+      leave: () => leaveRoom(scopedRoomId)
     }
   }
 
   // Start initial connection
   connect()
+  startActivityTracking()
 
   return {
     on,
-    cursor: (position: { x: number; y: number }) => {
-      const now = Date.now()
-      pendingCursorPosition = position
-
-      if (now - lastCursorUpdate >= throttleCursor) {
-        flushCursorUpdate()
-        lastCursorUpdate = now
-      } else {
-        // Clear existing timer and set new one
-        if (cursorThrottleTimer) {
-          clearTimeout(cursorThrottleTimer)
-        }
-        cursorThrottleTimer = setTimeout(flushCursorUpdate, throttleCursor - (now - lastCursorUpdate))
-      }
-    },
-    typing: (isTyping: boolean) => {
-      sendMessage('typing', { isTyping, roomId: currentRoomId })
-    },
-    broadcast: (event: string, data?: unknown) => {
-      sendMessage('custom', { event, data, roomId: currentRoomId })
-    },
+    off,
+    cursor: (position: { x: number; y: number }) => cursor(position),
+    typing: (isTyping: boolean) => typing(isTyping),
+    setPresence: (patch: PresencePatch<P>) => setPresence(patch),
+    broadcast: broadcaster(defaultRoomId),
+    request: (event: string, data?: unknown, options?: RequestOptions) => request(event, data, options),
+    reauth,
+    sendTo: directSender(defaultRoomId),
     send: (event: string, data?: unknown) => {
-      sendMessage('custom', { event, data, roomId: currentRoomId })
+      sendMessage('custom', { event, data, roomId: defaultRoomId() })
     },
-    joinRoom: (newRoomId: string) => {
-      currentRoomId = newRoomId
-      sendMessage('join', { roomId: newRoomId })
-    },
-    leaveRoom: () => {
-      sendMessage('leave', { roomId: currentRoomId })
+    kick: (userId: string) => {
+      sendMessage('kick', { targetUserId: userId, roomId: defaultRoomId() })
     },
+    joinRoom,
+    leaveRoom,
+    room,
+    doc,
+    getRooms: () => Array.from(rooms),
+    getUsers: (targetRoomId?: string) => getUsers(targetRoomId),
+    getUserId: () => userId,
+    getQueueSize: () => outbox.length,
     disconnect: () => {
       shouldReconnect = false
       stopHeartbeat()
@@ -235,10 +809,34 @@ export function createCollabClient(config: ClientConfig): CollabClient {
         clearTimeout(cursorThrottleTimer)
         cursorThrottleTimer = null
       }
-      ws?.close()
+      if (presenceThrottleTimer) {
+        clearTimeout(presenceThrottleTimer)
+        presenceThrottleTimer = null
+      }
+      stopActivityTracking()
+      clearQueue('disconnected')
+      ws?.close(1000)
       ws = null
       setState('disconnected')
     },
     getState: () => connectionState
   }
 }
+
+// Outside browsers and Node.js 22+ there is no global to fall back to
+function resolveWebSocket(implementation?: WebSocketConstructor): WebSocketConstructor {
+  const resolved = implementation ?? (globalThis as { WebSocket?: WebSocketConstructor }).WebSocket
+  if (!resolved) {
+    throw new CollabError('CONNECTION_ERROR', 'No global WebSocket; pass an implementation such as the ws package as config.WebSocket.')
+  }
+  return resolved
+}
+
+// Rebuilds the error a failed request or acked broadcast was rejected with on the server
+function responseError(payload: ServerMessage): Error {
+  const message = payload.error ?? 'Request failed'
+  if (!payload.code) return new Error(message)
+  if (payload.issues) return new ValidationError(payload.code, message, payload.issues)
+  if (payload.code === 'RATE_LIMITED') return new RateLimitError(message, payload.retryAfter ?? 0)
+  return new CollabError(payload.code, message)
+}
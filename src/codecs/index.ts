@@ -0,0 +1,14 @@
+import type { Codec, CodecName } from '../types.js'
+import { jsonCodec } from './json.js'
+import { msgpackCodec } from './msgpack.js'
+
+export const codecs: Record<CodecName, Codec> = {
+  json: jsonCodec,
+  msgpack: msgpackCodec
+}
+
+export function codecForProtocol(protocol: string): Codec | undefined {
+  return Object.values(codecs).find(codec => codec.protocol === protocol)
+}
+
+export { jsonCodec, msgpackCodec }
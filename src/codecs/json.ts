@@ -0,0 +1,8 @@
+import type { Codec } from '../types.js'
+
+export const jsonCodec: Codec = {
+  name: 'json',
+  protocol: 'collab-json',
+  encode: (message) => JSON.stringify(message),
+  decode: (data) => JSON.parse(typeof data === 'string' ? data : new TextDecoder().decode(data))
+}
@@ -0,0 +1,325 @@
+import type { Codec } from '../types.js'
+
+// Cursor messages are the bulk of the traffic, so they travel as a fixed-shape tuple:
+// [CURSOR_TAG, roomId | null, userId | null, x, y]
+const CURSOR_TAG = 0
+
+const textEncoder = new TextEncoder()
+const textDecoder = new TextDecoder()
+
+class Writer {
+  private buffer = new Uint8Array(256)
+  private view = new DataView(this.buffer.buffer)
+  private offset = 0
+
+  bytes(): Uint8Array {
+    return this.buffer.slice(0, this.offset)
+  }
+
+  private ensure(size: number): void {
+    if (this.offset + size <= this.buffer.length) return
+    let length = this.buffer.length * 2
+    while (length < this.offset + size) length *= 2
+    const next = new Uint8Array(length)
+    next.set(this.buffer)
+    this.buffer = next
+    this.view = new DataView(next.buffer)
+  }
+
+  u8(value: number): void {
+    this.ensure(1)
+    this.view.setUint8(this.offset, value)
+    this.offset += 1
+  }
+
+  u16(value: number): void {
+    this.ensure(2)
+    this.view.setUint16(this.offset, value)
+    this.offset += 2
+  }
+
+  u32(value: number): void {
+    this.ensure(4)
+    this.view.setUint32(this.offset, value)
+    this.offset += 4
+  }
+
+  i8(value: number): void {
+    this.ensure(1)
+    this.view.setInt8(this.offset, value)
+    this.offset += 1
+  }
+
+  i16(value: number): void {
+    this.ensure(2)
+    this.view.setInt16(this.offset, value)
+    this.offset += 2
+  }
+
+  i32(value: number): void {
+    this.ensure(4)
+    this.view.setInt32(this.offset, value)
+    this.offset += 4
+  }
+
+  f64(value: number): void {
+    this.ensure(8)
+    this.view.setFloat64(this.offset, value)
+    this.offset += 8
+  }
+
+  raw(bytes: Uint8Array): void {
+    this.ensure(bytes.length)
+    this.buffer.set(bytes, this.offset)
+    this.offset += bytes.length
+  }
+}
+
+function writeValue(writer: Writer, value: unknown): void {
+  if (value === null || value === undefined) {
+    writer.u8(0xc0)
+  } else if (value === false) {
+    writer.u8(0xc2)
+  } else if (value === true) {
+    writer.u8(0xc3)
+  } else if (typeof value === 'number') {
+    writeNumber(writer, value)
+  } else if (typeof value === 'string') {
+    const bytes = textEncoder.encode(value)
+    if (bytes.length < 32) {
+      writer.u8(0xa0 | bytes.length)
+    } else if (bytes.length < 0x100) {
+      writer.u8(0xd9)
+      writer.u8(bytes.length)
+    } else if (bytes.length < 0x10000) {
+      writer.u8(0xda)
+      writer.u16(bytes.length)
+    } else {
+      writer.u8(0xdb)
+      writer.u32(bytes.length)
+    }
+    writer.raw(bytes)
+  } else if (value instanceof Uint8Array) {
+    if (value.length < 0x100) {
+      writer.u8(0xc4)
+      writer.u8(value.length)
+    } else if (value.length < 0x10000) {
+      writer.u8(0xc5)
+      writer.u16(value.length)
+    } else {
+      writer.u8(0xc6)
+      writer.u32(value.length)
+    }
+    writer.raw(value)
+  } else if (Array.isArray(value)) {
+    writeLength(writer, value.length, 0x90, 0xdc, 0xdd)
+    value.forEach(item => writeValue(writer, item))
+  } else if (typeof value === 'object') {
+    // Like JSON, keys with undefined values are omitted
+    const entries = Object.entries(value).filter(([, item]) => item !== undefined)
+    writeLength(writer, entries.length, 0x80, 0xde, 0xdf)
+    entries.forEach(([key, item]) => {
+      writeValue(writer, key)
+      writeValue(writer, item)
+    })
+  } else {
+    throw new TypeError(`Cannot encode ${typeof value} as MessagePack`)
+  }
+}
+
+function writeLength(writer: Writer, length: number, fix: number, marker16: number, marker32: number): void {
+  if (length < 16) {
+    writer.u8(fix | length)
+  } else if (length < 0x10000) {
+    writer.u8(marker16)
+    writer.u16(length)
+  } else {
+    writer.u8(marker32)
+    writer.u32(length)
+  }
+}
+
+function writeNumber(writer: Writer, value: number): void {
+  if (!Number.isInteger(value) || value > 0xffffffff || value < -0x80000000) {
+    writer.u8(0xcb)
+    writer.f64(value)
+  } else if (value >= 0) {
+    if (value < 0x80) {
+      writer.u8(value)
+    } else if (value < 0x100) {
+      writer.u8(0xcc)
+      writer.u8(value)
+    } else if (value < 0x10000) {
+      writer.u8(0xcd)
+      writer.u16(value)
+    } else {
+      writer.u8(0xce)
+      writer.u32(value)
+    }
+  } else if (value >= -32) {
+    writer.u8(value & 0xff)
+  } else if (value >= -0x80) {
+    writer.u8(0xd0)
+    writer.i8(value)
+  } else if (value >= -0x8000) {
+    writer.u8(0xd1)
+    writer.i16(value)
+  } else {
+    writer.u8(0xd2)
+    writer.i32(value)
+  }
+}
+
+class Reader {
+  private view: DataView
+  private offset = 0
+
+  constructor(private bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  }
+
+  done(): boolean {
+    return this.offset >= this.bytes.length
+  }
+
+  read(): unknown {
+    const marker = this.u8()
+
+    if (marker < 0x80) return marker
+    if (marker >= 0xe0) return marker - 0x100
+    if ((marker & 0xf0) === 0x80) return this.map(marker & 0x0f)
+    if ((marker & 0xf0) === 0x90) return this.array(marker & 0x0f)
+    if ((marker & 0xe0) === 0xa0) return this.str(marker & 0x1f)
+
+    switch (marker) {
+      case 0xc0: return null
+      case 0xc2: return false
+      case 0xc3: return true
+      case 0xc4: return this.bin(this.u8())
+      case 0xc5: return this.bin(this.u16())
+      case 0xc6: return this.bin(this.u32())
+      case 0xca: return this.take(4, () => this.view.getFloat32(this.offset))
+      case 0xcb: return this.take(8, () => this.view.getFloat64(this.offset))
+      case 0xcc: return this.u8()
+      case 0xcd: return this.u16()
+      case 0xce: return this.u32()
+      case 0xcf: return this.take(8, () => Number(this.view.getBigUint64(this.offset)))
+      case 0xd0: return this.take(1, () => this.view.getInt8(this.offset))
+      case 0xd1: return this.take(2, () => this.view.getInt16(this.offset))
+      case 0xd2: return this.take(4, () => this.view.getInt32(this.offset))
+      case 0xd3: return this.take(8, () => Number(this.view.getBigInt64(this.offset)))
+      case 0xd9: return this.str(this.u8())
+      case 0xda: return this.str(this.u16())
+      case 0xdb: return this.str(this.u32())
+      case 0xdc: return this.array(this.u16())
+      case 0xdd: return this.array(this.u32())
+      case 0xde: return this.map(this.u16())
+      case 0xdf: return this.map(this.u32())
+      default:
+        throw new Error(`Unsupported MessagePack type 0x${marker.toString(16)}`)
+    }
+  }
+
+  private take<T>(size: number, read: () => T): T {
+    if (this.offset + size > this.bytes.length) {
+      throw new RangeError('Unexpected end of MessagePack data')
+    }
+    const value = read()
+    this.offset += size
+    return value
+  }
+
+  private u8(): number {
+    return this.take(1, () => this.view.getUint8(this.offset))
+  }
+
+  private u16(): number {
+    return this.take(2, () => this.view.getUint16(this.offset))
+  }
+
+  private u32(): number {
+    return this.take(4, () => this.view.getUint32(this.offset))
+  }
+
+  private str(length: number): string {
+    return textDecoder.decode(this.slice(length))
+  }
+
+  // Copied so decoded binaries don't keep the socket's receive buffer alive
+  private bin(length: number): Uint8Array {
+    return new Uint8Array(this.slice(length))
+  }
+
+  private slice(length: number): Uint8Array {
+    return this.take(length, () => this.bytes.subarray(this.offset, this.offset + length))
+  }
+
+  private array(length: number): unknown[] {
+    const items: unknown[] = []
+    for (let i = 0; i < length; i++) items.push(this.read())
+    return items
+  }
+
+  private map(length: number): Record<string, unknown> {
+    const object: Record<string, unknown> = {}
+    for (let i = 0; i < length; i++) {
+      const key = String(this.read())
+      // Defined rather than assigned so a "__proto__" key stays plain data, as with JSON.parse
+      Object.defineProperty(object, key, { value: this.read(), enumerable: true, writable: true, configurable: true })
+    }
+    return object
+  }
+}
+
+export function encodeMsgpack(value: unknown): Uint8Array {
+  const writer = new Writer()
+  writeValue(writer, value)
+  return writer.bytes()
+}
+
+export function decodeMsgpack(bytes: Uint8Array): unknown {
+  const reader = new Reader(bytes)
+  const value = reader.read()
+  if (!reader.done()) {
+    throw new Error('Trailing bytes after MessagePack value')
+  }
+  return value
+}
+
+const CURSOR_FIELDS = new Set(['type', 'roomId', 'userId', 'position'])
+
+interface CursorMessage {
+  type: 'cursor'
+  roomId?: string
+  userId?: string
+  position: { x: number; y: number }
+}
+
+function isCursorMessage(message: unknown): message is CursorMessage {
+  const candidate = message as CursorMessage
+  return candidate?.type === 'cursor' && typeof candidate.position?.x === 'number' &&
+    typeof candidate.position?.y === 'number' && Object.keys(candidate).every(key => CURSOR_FIELDS.has(key))
+}
+
+export const msgpackCodec: Codec = {
+  name: 'msgpack',
+  protocol: 'collab-msgpack',
+  encode: (message) => {
+    if (isCursorMessage(message)) {
+      const { roomId, userId, position } = message
+      return encodeMsgpack([CURSOR_TAG, roomId ?? null, userId ?? null, position.x, position.y])
+    }
+    return encodeMsgpack(message)
+  },
+  decode: (data) => {
+    const value = decodeMsgpack(typeof data === 'string' ? textEncoder.encode(data) : data)
+    if (Array.isArray(value) && value[0] === CURSOR_TAG) {
+      const [, roomId, userId, x, y] = value as [number, string | null, string | null, number, number]
+      const message: CursorMessage = { type: 'cursor', position: { x, y } }
+      if (roomId !== null) message.roomId = roomId
+      if (userId !== null) message.userId = userId
+      return message
+    }
+    return value
+  }
+}
@@ -0,0 +1,389 @@
+import type { DocOp, DocUpdate, DocChangeEvent, JsonValue } from './types.js'
+
+// Op ids are Lamport timestamps `${clock}@${actor}`; ties on clock are broken by actor
+// so every replica orders concurrent operations the same way.
+function parseId(id: string): { clock: number; actor: string } {
+  const separator = id.indexOf('@')
+  return { clock: Number(id.slice(0, separator)), actor: id.slice(separator + 1) }
+}
+
+function compareIds(a: string, b: string): number {
+  const left = parseId(a)
+  const right = parseId(b)
+  if (left.clock !== right.clock) return left.clock - right.clock
+  return left.actor < right.actor ? -1 : left.actor > right.actor ? 1 : 0
+}
+
+function offsetId(id: string, offset: number): string {
+  const { clock, actor } = parseId(id)
+  return `${clock + offset}@${actor}`
+}
+
+function randomActor(): string {
+  return Math.random().toString(36).slice(2, 10) + Date.now().toString(36)
+}
+
+interface MapEntry {
+  id: string
+  value: JsonValue
+  deleted: boolean
+}
+
+interface SequenceItem {
+  id: string
+  origin: string | null
+  value: JsonValue
+  deleted: boolean
+}
+
+type Root =
+  | { kind: 'map'; entries: Map<string, MapEntry> }
+  | { kind: 'list' | 'text'; items: SequenceItem[]; index: Map<string, SequenceItem> }
+
+type SequenceRoot = Extract<Root, { kind: 'list' | 'text' }>
+
+type IntegrateResult = 'applied' | 'noop' | 'missing'
+
+/**
+ * Conflict-free replicated document made of named maps (last-writer-wins per key),
+ * lists and text (RGA sequences). Updates are idempotent and commutative, so replicas
+ * converge no matter how often or in which order they receive them.
+ */
+export class CollabDoc {
+  readonly actor: string
+  private clock = 0
+  private roots = new Map<string, Root>()
+  private pending: DocOp[] = []
+  private listeners = new Set<(event: DocChangeEvent) => void>()
+
+  constructor(actor: string = randomActor()) {
+    this.actor = actor
+  }
+
+  getMap<T extends JsonValue = JsonValue>(name: string): SharedMap<T> {
+    this.getRoot(name, 'map')
+    return new SharedMap<T>(this, name)
+  }
+
+  getList<T extends JsonValue = JsonValue>(name: string): SharedList<T> {
+    this.getRoot(name, 'list')
+    return new SharedList<T>(this, name)
+  }
+
+  getText(name: string): SharedText {
+    this.getRoot(name, 'text')
+    return new SharedText(this, name)
+  }
+
+  subscribe(listener: (event: DocChangeEvent) => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  applyUpdate(update: DocUpdate, origin: DocChangeEvent['origin'] = 'remote'): void {
+    const applied: DocOp[] = []
+    let queue = [...this.pending, ...update]
+    this.pending = []
+
+    // Ops whose dependencies haven't arrived yet are retried until no more progress is made
+    let progressed = true
+    while (progressed && queue.length > 0) {
+      progressed = false
+      const missing: DocOp[] = []
+      for (const op of queue) {
+        const result = this.tryIntegrate(op)
+        if (result === 'missing') {
+          missing.push(op)
+        } else {
+          progressed = true
+          if (result === 'applied') applied.push(op)
+        }
+      }
+      queue = missing
+    }
+    this.pending = queue
+
+    if (applied.length > 0) {
+      this.listeners.forEach(listener => listener({ origin, update: applied }))
+    }
+  }
+
+  // Minimal update that recreates this document, including tombstones needed for merging
+  encodeState(): DocUpdate {
+    const update: DocOp[] = []
+
+    this.roots.forEach((root, name) => {
+      if (root.kind === 'map') {
+        root.entries.forEach((entry, key) => {
+          update.push(entry.deleted
+            ? { op: 'map-delete', root: name, id: entry.id, key }
+            : { op: 'map-set', root: name, id: entry.id, key, value: entry.value })
+        })
+        return
+      }
+
+      const deleted: string[] = []
+      let run: SequenceItem[] = []
+      const flushRun = () => {
+        if (run.length === 0) return
+        const [first] = run
+        update.push(root.kind === 'text'
+          ? { op: 'text-insert', root: name, id: first.id, after: first.origin, text: run.map(item => item.value).join('') }
+          : { op: 'list-insert', root: name, id: first.id, after: first.origin, values: run.map(item => item.value) })
+        run = []
+      }
+
+      for (const item of root.items) {
+        const previous = run[run.length - 1]
+        // Items typed in one go share an actor, consecutive clocks and chain their origins
+        if (!previous || item.origin !== previous.id || item.id !== offsetId(previous.id, 1)) {
+          flushRun()
+        }
+        run.push(item)
+        if (item.deleted) deleted.push(item.id)
+      }
+      flushRun()
+
+      if (deleted.length > 0) {
+        update.push({ op: root.kind === 'text' ? 'text-delete' : 'list-delete', root: name, targets: deleted })
+      }
+    })
+
+    return [...update, ...this.pending]
+  }
+
+  toJSON(): Record<string, JsonValue> {
+    const json: Record<string, JsonValue> = {}
+    this.roots.forEach((_root, name) => {
+      json[name] = this.readRoot(name)
+    })
+    return json
+  }
+
+  /** @internal */
+  getRoot(name: string, kind: 'map'): Extract<Root, { kind: 'map' }>
+  /** @internal */
+  getRoot(name: string, kind: 'list' | 'text'): SequenceRoot
+  getRoot(name: string, kind: Root['kind']): Root {
+    let root = this.roots.get(name)
+    if (!root) {
+      root = kind === 'map'
+        ? { kind, entries: new Map() }
+        : { kind, items: [], index: new Map() }
+      this.roots.set(name, root)
+    }
+    if (root.kind !== kind) {
+      throw new Error(`Shared type "${name}" is a ${root.kind}, not a ${kind}`)
+    }
+    return root
+  }
+
+  /** @internal */
+  readRoot(name: string): JsonValue {
+    const root = this.roots.get(name)
+    if (!root) return null
+    if (root.kind === 'map') {
+      const object: Record<string, JsonValue> = {}
+      root.entries.forEach((entry, key) => {
+        if (!entry.deleted) object[key] = entry.value
+      })
+      return object
+    }
+    const visible = root.items.filter(item => !item.deleted).map(item => item.value)
+    return root.kind === 'text' ? visible.join('') : visible
+  }
+
+  /** @internal */
+  nextId(count = 1): string {
+    const id = `${this.clock + 1}@${this.actor}`
+    this.clock += count
+    return id
+  }
+
+  /** @internal */
+  commit(op: DocOp): void {
+    this.applyUpdate([op], 'local')
+  }
+
+  private observe(id: string, count = 1): void {
+    this.clock = Math.max(this.clock, parseId(id).clock + count - 1)
+  }
+
+  // Ops that target a root of a different kind can never apply and are dropped
+  private tryIntegrate(op: DocOp): IntegrateResult {
+    try {
+      return this.integrate(op)
+    } catch {
+      return 'noop'
+    }
+  }
+
+  private integrate(op: DocOp): IntegrateResult {
+    switch (op.op) {
+      case 'map-set':
+      case 'map-delete': {
+        const root = this.getRoot(op.root, 'map')
+        const current = root.entries.get(op.key)
+        this.observe(op.id)
+        if (current && compareIds(current.id, op.id) >= 0) return 'noop'
+        root.entries.set(op.key, op.op === 'map-set'
+          ? { id: op.id, value: op.value, deleted: false }
+          : { id: op.id, value: null, deleted: true })
+        return 'applied'
+      }
+      case 'list-insert':
+      case 'text-insert': {
+        const root = this.getRoot(op.root, op.op === 'text-insert' ? 'text' : 'list')
+        if (root.index.has(op.id)) return 'noop'
+        if (op.after !== null && !root.index.has(op.after)) return 'missing'
+
+        const values: JsonValue[] = op.op === 'text-insert' ? Array.from(op.text) : op.values
+        this.observe(op.id, values.length)
+        let origin = op.after
+        values.forEach((value, offset) => {
+          const item: SequenceItem = { id: offsetId(op.id, offset), origin, value, deleted: false }
+          insertItem(root, item)
+          origin = item.id
+        })
+        return 'applied'
+      }
+      case 'list-delete':
+      case 'text-delete': {
+        const root = this.getRoot(op.root, op.op === 'text-delete' ? 'text' : 'list')
+        if (op.targets.some(target => !root.index.has(target))) return 'missing'
+        let changed = false
+        for (const target of op.targets) {
+          const item = root.index.get(target)!
+          if (!item.deleted) {
+            item.deleted = true
+            changed = true
+          }
+        }
+        return changed ? 'applied' : 'noop'
+      }
+    }
+  }
+}
+
+// RGA integration: start right after the origin and skip concurrent inserts with a higher id
+function insertItem(root: SequenceRoot, item: SequenceItem): void {
+  let position = item.origin === null ? 0 : root.items.indexOf(root.index.get(item.origin)!) + 1
+  while (position < root.items.length && compareIds(root.items[position].id, item.id) > 0) {
+    position++
+  }
+  root.items.splice(position, 0, item)
+  root.index.set(item.id, item)
+}
+
+function visibleItems(root: SequenceRoot): SequenceItem[] {
+  return root.items.filter(item => !item.deleted)
+}
+
+function originAt(root: SequenceRoot, index: number): string | null {
+  if (index <= 0) return null
+  const visible = visibleItems(root)
+  if (index > visible.length) {
+    throw new RangeError(`Index ${index} is out of bounds (length ${visible.length})`)
+  }
+  return visible[index - 1].id
+}
+
+function idsInRange(root: SequenceRoot, index: number, count: number): string[] {
+  return visibleItems(root).slice(index, index + count).map(item => item.id)
+}
+
+export class SharedMap<T extends JsonValue = JsonValue> {
+  constructor(private doc: CollabDoc, readonly name: string) {}
+
+  get(key: string): T | undefined {
+    const entry = this.doc.getRoot(this.name, 'map').entries.get(key)
+    return entry && !entry.deleted ? entry.value as T : undefined
+  }
+
+  has(key: string): boolean {
+    return this.get(key) !== undefined
+  }
+
+  set(key: string, value: T): void {
+    this.doc.commit({ op: 'map-set', root: this.name, id: this.doc.nextId(), key, value })
+  }
+
+  delete(key: string): void {
+    if (!this.has(key)) return
+    this.doc.commit({ op: 'map-delete', root: this.name, id: this.doc.nextId(), key })
+  }
+
+  keys(): string[] {
+    return Object.keys(this.toJSON())
+  }
+
+  toJSON(): Record<string, T> {
+    return this.doc.readRoot(this.name) as Record<string, T>
+  }
+}
+
+export class SharedList<T extends JsonValue = JsonValue> {
+  constructor(private doc: CollabDoc, readonly name: string) {}
+
+  get length(): number {
+    return visibleItems(this.doc.getRoot(this.name, 'list')).length
+  }
+
+  get(index: number): T | undefined {
+    return visibleItems(this.doc.getRoot(this.name, 'list'))[index]?.value as T | undefined
+  }
+
+  insert(index: number, ...values: T[]): void {
+    if (values.length === 0) return
+    const after = originAt(this.doc.getRoot(this.name, 'list'), index)
+    this.doc.commit({ op: 'list-insert', root: this.name, id: this.doc.nextId(values.length), after, values })
+  }
+
+  push(...values: T[]): void {
+    this.insert(this.length, ...values)
+  }
+
+  delete(index: number, count = 1): void {
+    const targets = idsInRange(this.doc.getRoot(this.name, 'list'), index, count)
+    if (targets.length === 0) return
+    this.doc.commit({ op: 'list-delete', root: this.name, targets })
+  }
+
+  toArray(): T[] {
+    return this.doc.readRoot(this.name) as T[]
+  }
+
+  toJSON(): T[] {
+    return this.toArray()
+  }
+}
+
+export class SharedText {
+  constructor(private doc: CollabDoc, readonly name: string) {}
+
+  get length(): number {
+    return visibleItems(this.doc.getRoot(this.name, 'text')).length
+  }
+
+  insert(index: number, text: string): void {
+    if (text.length === 0) return
+    const after = originAt(this.doc.getRoot(this.name, 'text'), index)
+    this.doc.commit({ op: 'text-insert', root: this.name, id: this.doc.nextId(Array.from(text).length), after, text })
+  }
+
+  delete(index: number, length = 1): void {
+    const targets = idsInRange(this.doc.getRoot(this.name, 'text'), index, length)
+    if (targets.length === 0) return
+    this.doc.commit({ op: 'text-delete', root: this.name, targets })
+  }
+
+  toString(): string {
+    return this.doc.readRoot(this.name) as string
+  }
+
+  toJSON(): string {
+    return this.toString()
+  }
+}
@@ -0,0 +1,58 @@
+import type { ErrorCode } from './types.js'
+import type { ValidationIssue } from './schema.js'
+
+// Close codes the server ends connections with, besides the standard 1000, 1001 and 1006
+export const CloseCode = {
+  MESSAGE_TOO_BIG: 1009,
+  INTERNAL_ERROR: 1011,
+  AUTH_REQUIRED: 4001,
+  INVALID_TOKEN: 4002,
+  TOKEN_EXPIRED: 4003,
+  SESSION_REVOKED: 4004,
+  KICKED: 4005,
+  BANNED: 4006,
+  RATE_LIMITED: 4029
+} as const
+
+// Retrying after these can't succeed until the application provides new credentials
+export const FATAL_CLOSE_CODES: ReadonlySet<number> = new Set([
+  CloseCode.AUTH_REQUIRED,
+  CloseCode.INVALID_TOKEN,
+  CloseCode.SESSION_REVOKED,
+  CloseCode.KICKED,
+  CloseCode.BANNED
+])
+
+export const FATAL_ERROR_CODES: ReadonlySet<ErrorCode> = new Set<ErrorCode>(['AUTH_REQUIRED', 'INVALID_TOKEN', 'SESSION_REVOKED', 'BANNED', 'RECONNECT_FAILED'])
+
+export class CollabError extends Error {
+  readonly code: ErrorCode
+
+  constructor(code: ErrorCode, message: string) {
+    super(message)
+    this.name = 'CollabError'
+    this.code = code
+  }
+}
+
+// Rejected input, with one issue per offending field
+export class ValidationError extends CollabError {
+  readonly issues: ValidationIssue[]
+
+  constructor(code: ErrorCode, message: string, issues: ValidationIssue[]) {
+    super(code, message)
+    this.name = 'ValidationError'
+    this.issues = issues
+  }
+}
+
+// Message dropped for exceeding a rate limit; retrying after `retryAfter` ms may succeed
+export class RateLimitError extends CollabError {
+  readonly retryAfter: number
+
+  constructor(message: string, retryAfter: number) {
+    super('RATE_LIMITED', message)
+    this.name = 'RateLimitError'
+    this.retryAfter = retryAfter
+  }
+}
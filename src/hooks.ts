@@ -0,0 +1,38 @@
+import type { Logger, Middleware, MiddlewareContext, TransformHook } from './types.js'
+
+/**
+ * Passes a value through transform hooks in registration order. Each hook sees the
+ * previous hook's result; null from any hook drops the value and stops the chain.
+ */
+export async function runHooks<T, C>(hooks: Array<TransformHook<T, C>>, value: T, context: C): Promise<T | null> {
+  let current = value
+  for (const hook of hooks) {
+    const result = await hook(current, context)
+    if (result === null) return null
+    if (result !== undefined) current = result
+  }
+  return current
+}
+
+// Observer hooks can't stop what already happened, so their failures are only logged
+export async function notifyHooks<C>(hooks: Array<(context: C) => Promise<void> | void>, context: C, logger: Logger): Promise<void> {
+  for (const hook of hooks) {
+    try {
+      await hook(context)
+    } catch (error) {
+      logger.error('Hook failed', { error })
+    }
+  }
+}
+
+// Koa-style onion: each middleware decides whether, and when, the rest of the chain runs
+export function runMiddleware(middleware: Middleware[], context: MiddlewareContext, handler: (context: MiddlewareContext) => Promise<void>): Promise<void> {
+  let lastIndex = -1
+  const dispatch = async (index: number): Promise<void> => {
+    if (index <= lastIndex) throw new Error('next() called multiple times')
+    lastIndex = index
+    if (index === middleware.length) return handler(context)
+    await middleware[index](context, () => dispatch(index + 1))
+  }
+  return dispatch(0)
+}
@@ -2,4 +2,11 @@ export { createCollabServer } from './server.js'
 export { createCollabClient } from './client.js'
 export { MemoryAdapter } from './adapters/memory.js'
 export { RedisAdapter } from './adapters/redis.js'
+export { FilePersistence } from './persistence/file.js'
+export { CollabError, ValidationError, RateLimitError, CloseCode } from './errors.js'
+export { createConsoleLogger } from './logger.js'
+export { schema, Schema } from './schema.js'
+export type { Infer, ValidationIssue, ValidationResult } from './schema.js'
+export { CollabDoc, SharedMap, SharedList, SharedText } from './crdt.js'
+export { jsonCodec, msgpackCodec } from './codecs/index.js'
 export type * from './types.js'
@@ -0,0 +1,122 @@
+import type { Adapter, MessageType, RateLimitConfig, RateLimitRule } from '../types.js'
+
+// Generous enough for the client's own throttling; ping and pong are never limited
+const DEFAULT_RULES: Partial<Record<MessageType, RateLimitRule>> = {
+  join: { rate: 5, burst: 20, per: 'user' },
+  leave: { rate: 5, burst: 20 },
+  cursor: { rate: 30, burst: 60 },
+  typing: { rate: 5, burst: 10 },
+  'set-presence': { rate: 30, burst: 60 },
+  custom: { rate: 20, burst: 40, per: 'user' },
+  request: { rate: 20, burst: 40, per: 'user' },
+  kick: { rate: 2, burst: 5 },
+  'doc-sync': { rate: 2, burst: 10 },
+  'doc-update': { rate: 60, burst: 120 },
+  reauth: { rate: 1, burst: 5 }
+}
+
+export class TokenBucket {
+  private tokens: number
+  private updatedAt: number
+
+  constructor(private rate: number, private burst: number, now = Date.now()) {
+    this.tokens = burst
+    this.updatedAt = now
+  }
+
+  // Returns 0 when a token was taken, otherwise the ms until one is available
+  take(now = Date.now()): number {
+    this.refill(now)
+    if (this.tokens >= 1) {
+      this.tokens -= 1
+      return 0
+    }
+    return Math.ceil((1 - this.tokens) * 1000 / this.rate)
+  }
+
+  isFull(now = Date.now()): boolean {
+    this.refill(now)
+    return this.tokens >= this.burst
+  }
+
+  private refill(now: number): void {
+    this.tokens = Math.min(this.burst, this.tokens + (now - this.updatedAt) * this.rate / 1000)
+    this.updatedAt = now
+  }
+}
+
+export type RateLimitVerdict =
+  | { allowed: true }
+  | { allowed: false; retryAfter: number; notify: boolean; disconnect: boolean }
+
+interface ConnectionLimits {
+  buckets: Map<MessageType, TokenBucket>
+  // Consecutive rejected messages per type
+  strikes: Map<MessageType, number>
+  mutedUntil: Map<MessageType, number>
+}
+
+/**
+ * Token-bucket limits per message type. Rejected messages are dropped; a connection that keeps
+ * going is muted for that type, and one that keeps going after that is disconnected.
+ */
+export function createRateLimiter(adapter: Adapter, config: RateLimitConfig = {}) {
+  const { muteAfter = 10, muteDuration = 10000, disconnectAfter = 100 } = config
+  const rules = { ...DEFAULT_RULES, ...config.rules }
+  const connections = new WeakMap<object, ConnectionLimits>()
+
+  function limitsFor(socket: object): ConnectionLimits {
+    let limits = connections.get(socket)
+    if (!limits) {
+      limits = { buckets: new Map(), strikes: new Map(), mutedUntil: new Map() }
+      connections.set(socket, limits)
+    }
+    return limits
+  }
+
+  async function take(limits: ConnectionLimits, type: MessageType, rule: RateLimitRule, userId?: string): Promise<number> {
+    const burst = rule.burst ?? rule.rate
+    // Until the first join authenticates there is no user to share a bucket with
+    if (rule.per === 'user' && userId) {
+      return adapter.takeToken(`${userId}:${type}`, rule.rate, burst)
+    }
+    let bucket = limits.buckets.get(type)
+    if (!bucket) {
+      bucket = new TokenBucket(rule.rate, burst)
+      limits.buckets.set(type, bucket)
+    }
+    return bucket.take()
+  }
+
+  // The offender is told once when a streak of rejections starts and once when it gets muted
+  async function check(socket: object, type: MessageType, userId?: string): Promise<RateLimitVerdict> {
+    const rule = rules[type]
+    if (!rule) return { allowed: true }
+
+    const limits = limitsFor(socket)
+    const now = Date.now()
+    let retryAfter = (limits.mutedUntil.get(type) ?? 0) - now
+    if (retryAfter <= 0) {
+      retryAfter = await take(limits, type, rule, userId)
+      if (retryAfter === 0) {
+        limits.strikes.delete(type)
+        return { allowed: true }
+      }
+    }
+
+    const strikes = (limits.strikes.get(type) ?? 0) + 1
+    limits.strikes.set(type, strikes)
+    if (strikes === muteAfter) {
+      limits.mutedUntil.set(type, now + muteDuration)
+      retryAfter = muteDuration
+    }
+    return {
+      allowed: false,
+      retryAfter,
+      notify: strikes === 1 || strikes === muteAfter,
+      disconnect: disconnectAfter > 0 && strikes >= disconnectAfter
+    }
+  }
+
+  return { check }
+}
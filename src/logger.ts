@@ -0,0 +1,18 @@
+import type { Logger, LogLevel, LogContext } from './types.js'
+
+const LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error']
+
+// Logs to the console, dropping messages below `level`; 'silent' drops everything
+export function createConsoleLogger(level: LogLevel | 'silent' = 'info'): Logger {
+  const threshold = level === 'silent' ? LEVELS.length : LEVELS.indexOf(level)
+  const writer = (target: LogLevel) => LEVELS.indexOf(target) < threshold
+    ? () => {}
+    : (message: string, context?: LogContext) => context ? console[target](message, context) : console[target](message)
+
+  return {
+    debug: writer('debug'),
+    info: writer('info'),
+    warn: writer('warn'),
+    error: writer('error')
+  }
+}
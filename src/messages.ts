@@ -0,0 +1,100 @@
+import { schema } from './schema.js'
+import type { Infer, Schema } from './schema.js'
+import type { LimitsConfig } from './types.js'
+
+// Op ids are Lamport timestamps `${clock}@${actor}`. Clocks are capped at 15 digits so they
+// stay exact as numbers, which CollabDoc relies on to tell ops apart.
+const opId = schema.string({ max: 256, pattern: /^\d{1,15}@.+$/ })
+const root = schema.string({ min: 1, max: 256 })
+const after = schema.union(opId, schema.literal(null))
+
+const docOp = schema.union(
+  schema.object({ op: schema.literal('map-set'), root, id: opId, key: schema.string(), value: schema.json() }),
+  schema.object({ op: schema.literal('map-delete'), root, id: opId, key: schema.string() }),
+  schema.object({ op: schema.literal('list-insert'), root, id: opId, after, values: schema.array(schema.json()) }),
+  schema.object({ op: schema.literal('list-delete'), root, targets: schema.array(opId) }),
+  schema.object({ op: schema.literal('text-insert'), root, id: opId, after, text: schema.string() }),
+  schema.object({ op: schema.literal('text-delete'), root, targets: schema.array(opId) })
+)
+
+export const DEFAULT_LIMITS: Required<Pick<LimitsConfig, 'maxMetadataBytes' | 'maxMetadataKeys' | 'maxPresenceBytes'>> = {
+  maxMetadataBytes: 4096,
+  maxMetadataKeys: 32,
+  maxPresenceBytes: 4096
+}
+
+/**
+ * Schemas for every message a client can send, keyed by type. `ClientMessage` is
+ * inferred from these, so the client's types and the server's checks can't drift apart.
+ */
+export function createMessageSchemas(limits: LimitsConfig = {}) {
+  const { maxMetadataBytes, maxMetadataKeys, maxPresenceBytes } = { ...DEFAULT_LIMITS, ...limits }
+
+  const roomId = schema.string({ min: 1, max: 256 }).optional()
+  const requestId = schema.string({ min: 1, max: 64 }).optional()
+  const userId = schema.string({ min: 1, max: 256 })
+  const event = schema.string({ min: 1, max: 256 })
+  const position = schema.object({ x: schema.number(), y: schema.number() })
+  const update = schema.array(docOp)
+  const metadata = schema
+    .object({ name: schema.string().optional(), avatar: schema.string().optional(), color: schema.string().optional() }, { rest: schema.unknown(), maxKeys: maxMetadataKeys })
+    .refine(value => {
+      const size = new TextEncoder().encode(JSON.stringify(value)).length
+      if (size > maxMetadataBytes) return `must be at most ${maxMetadataBytes} bytes (got ${size})`
+    })
+  // Only the size of the patch is checked here; the server checks the merged presence too
+  const presencePatch = schema
+    .object({}, { rest: schema.json() })
+    .refine(value => {
+      const size = new TextEncoder().encode(JSON.stringify(value)).length
+      if (size > maxPresenceBytes) return `must be at most ${maxPresenceBytes} bytes (got ${size})`
+    })
+
+  return {
+    join: schema.object({
+      type: schema.literal('join'),
+      roomId,
+      token: schema.string({ max: 8192 }).optional(),
+      metadata: metadata.optional(),
+      since: schema.number({ min: 0, integer: true }).optional(),
+      resume: schema.string({ max: 256 }).optional(),
+      device: schema.string({ max: 64 }).optional(),
+      requestId
+    }),
+    leave: schema.object({ type: schema.literal('leave'), roomId, requestId }),
+    cursor: schema.object({ type: schema.literal('cursor'), roomId, position, requestId }),
+    typing: schema.object({ type: schema.literal('typing'), roomId, isTyping: schema.boolean(), requestId }),
+    'set-presence': schema.object({
+      type: schema.literal('set-presence'),
+      roomId,
+      presence: presencePatch.optional(),
+      activity: schema.literal('active', 'idle', 'away').optional(),
+      requestId
+    }),
+    custom: schema.object({
+      type: schema.literal('custom'),
+      roomId,
+      event,
+      data: schema.unknown(),
+      targetUserId: userId.optional(),
+      requestId
+    }),
+    request: schema.object({
+      type: schema.literal('request'),
+      roomId,
+      event,
+      data: schema.unknown(),
+      requestId: schema.string({ min: 1, max: 64 })
+    }),
+    kick: schema.object({ type: schema.literal('kick'), roomId, targetUserId: userId, requestId }),
+    'doc-sync': schema.object({ type: schema.literal('doc-sync'), roomId, update: update.optional(), requestId }),
+    'doc-update': schema.object({ type: schema.literal('doc-update'), roomId, update, requestId }),
+    reauth: schema.object({ type: schema.literal('reauth'), token: schema.string({ min: 1, max: 8192 }), requestId }),
+    ping: schema.object({ type: schema.literal('ping'), requestId }),
+    pong: schema.object({ type: schema.literal('pong'), requestId })
+  } satisfies Record<string, Schema<{ type: string }>>
+}
+
+export type MessageSchemas = ReturnType<typeof createMessageSchemas>
+
+export type InferMessages<S extends Record<string, Schema<unknown>>> = { [K in keyof S]: Infer<S[K]> }[keyof S]
@@ -0,0 +1,153 @@
+type Labels = Record<string, string>
+
+// Seconds, from a fast in-memory call to a slow Redis round trip
+const LATENCY_BUCKETS = [0.0005, 0.001, 0.0025, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5]
+const ROOM_SIZE_BUCKETS = [1, 2, 5, 10, 25, 50, 100, 250, 500, 1000]
+
+interface Metric {
+  name: string
+  help: string
+  type: 'counter' | 'gauge' | 'histogram'
+  samples(): string[]
+}
+
+// Series are keyed by their rendered labels, so callers must pass labels in a consistent order
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(value)}"`)
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : ''
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')
+}
+
+export class Counter implements Metric {
+  readonly type = 'counter'
+  private readonly values = new Map<string, number>()
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  inc(labels: Labels = {}, by = 1): void {
+    const key = formatLabels(labels)
+    this.values.set(key, (this.values.get(key) ?? 0) + by)
+  }
+
+  samples(): string[] {
+    return Array.from(this.values, ([key, value]) => `${this.name}${key} ${value}`)
+  }
+}
+
+export class Gauge implements Metric {
+  readonly type = 'gauge'
+  private readonly values = new Map<string, number>()
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  set(value: number, labels: Labels = {}): void {
+    this.values.set(formatLabels(labels), value)
+  }
+
+  inc(labels: Labels = {}, by = 1): void {
+    const key = formatLabels(labels)
+    this.values.set(key, (this.values.get(key) ?? 0) + by)
+  }
+
+  dec(labels: Labels = {}, by = 1): void {
+    this.inc(labels, -by)
+  }
+
+  samples(): string[] {
+    return Array.from(this.values, ([key, value]) => `${this.name}${key} ${value}`)
+  }
+}
+
+export class Histogram implements Metric {
+  readonly type = 'histogram'
+  private readonly series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>()
+
+  constructor(readonly name: string, readonly help: string, private readonly buckets: number[] = LATENCY_BUCKETS) {}
+
+  observe(value: number, labels: Labels = {}): void {
+    const key = formatLabels(labels)
+    let entry = this.series.get(key)
+    if (!entry) {
+      entry = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 }
+      this.series.set(key, entry)
+    }
+    const index = this.buckets.findIndex(bound => value <= bound)
+    if (index !== -1) entry.counts[index]++
+    entry.sum += value
+    entry.count++
+  }
+
+  // Buckets are stored per range and made cumulative here, as the format requires
+  samples(): string[] {
+    const lines: string[] = []
+    this.series.forEach(({ labels, counts, sum, count }, key) => {
+      let cumulative = 0
+      this.buckets.forEach((bound, i) => {
+        cumulative += counts[i]
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${cumulative}`)
+      })
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`)
+      lines.push(`${this.name}_sum${key} ${sum}`)
+      lines.push(`${this.name}_count${key} ${count}`)
+    })
+    return lines
+  }
+}
+
+export class MetricsRegistry {
+  private readonly metrics: Metric[] = []
+
+  counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help))
+  }
+
+  gauge(name: string, help: string): Gauge {
+    return this.register(new Gauge(name, help))
+  }
+
+  histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.register(new Histogram(name, help, buckets))
+  }
+
+  // Prometheus text exposition format, version 0.0.4
+  render(): string {
+    const lines: string[] = []
+    for (const metric of this.metrics) {
+      lines.push(`# HELP ${metric.name} ${metric.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`)
+      lines.push(`# TYPE ${metric.name} ${metric.type}`)
+      lines.push(...metric.samples())
+    }
+    return `${lines.join('\n')}\n`
+  }
+
+  private register<M extends Metric>(metric: M): M {
+    this.metrics.push(metric)
+    return metric
+  }
+}
+
+/**
+ * Everything a server node reports. Gauges describe this node only, so a cluster-wide
+ * view sums them across nodes; room sizes come from the adapter and are cluster-wide.
+ */
+export function createServerMetrics() {
+  const registry = new MetricsRegistry()
+  return {
+    connections: registry.gauge('collab_connections', 'Open WebSocket connections on this node.'),
+    connectionsTotal: registry.counter('collab_connections_total', 'WebSocket connections accepted by this node.'),
+    rooms: registry.gauge('collab_rooms', 'Rooms with at least one connection on this node.'),
+    roomSize: registry.histogram('collab_room_size', 'Users in a room each time someone enters it.', ROOM_SIZE_BUCKETS),
+    messagesReceived: registry.counter('collab_messages_received_total', 'Valid messages received from clients, by type.'),
+    messagesSent: registry.counter('collab_messages_sent_total', 'Messages sent to clients, by type.'),
+    errors: registry.counter('collab_errors_total', 'Errors sent to clients, by code.'),
+    adapterDuration: registry.histogram('collab_adapter_duration_seconds', 'Duration of adapter calls, by method.'),
+    adapterErrors: registry.counter('collab_adapter_errors_total', 'Failed adapter calls, by method.'),
+    pubsubLag: registry.histogram('collab_pubsub_lag_seconds', 'Delay between publishing a room broadcast and receiving it.'),
+    render: () => registry.render()
+  }
+}
+
+export type ServerMetrics = ReturnType<typeof createServerMetrics>
@@ -0,0 +1,37 @@
+import { mkdir, readFile, rename, writeFile } from 'fs/promises'
+import { join } from 'path'
+import type { PersistenceAdapter, RoomSnapshot } from '../types.js'
+
+export class FilePersistence implements PersistenceAdapter {
+  private directory: string
+  private ready: Promise<unknown>
+
+  constructor(config?: { directory?: string }) {
+    this.directory = config?.directory ?? './collab-data'
+    this.ready = mkdir(this.directory, { recursive: true })
+  }
+
+  async load(roomId: string): Promise<RoomSnapshot | null> {
+    await this.ready
+    try {
+      const data = await readFile(this.filePath(roomId), 'utf-8')
+      return JSON.parse(data) as RoomSnapshot
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+      throw error
+    }
+  }
+
+  async save(roomId: string, snapshot: RoomSnapshot): Promise<void> {
+    await this.ready
+    // Write then rename so a crash mid-write never leaves a truncated snapshot
+    const filePath = this.filePath(roomId)
+    const tempPath = `${filePath}.${process.pid}.tmp`
+    await writeFile(tempPath, JSON.stringify(snapshot))
+    await rename(tempPath, filePath)
+  }
+
+  private filePath(roomId: string): string {
+    return join(this.directory, `${encodeURIComponent(roomId)}.json`)
+  }
+}
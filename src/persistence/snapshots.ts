@@ -0,0 +1,81 @@
+import type { Adapter, Logger, PersistenceConfig } from '../types.js'
+
+interface PendingSnapshot {
+  timer: ReturnType<typeof setTimeout>
+  firstScheduledAt: number
+}
+
+/**
+ * Debounces room snapshots so a busy room is written at most once per `debounce` ms,
+ * but never less often than every `maxWait` ms while it keeps changing.
+ */
+export function createSnapshotScheduler(adapter: Adapter, config: PersistenceConfig, logger: Logger) {
+  const { adapter: persistence, debounce = 2000, maxWait = 10000 } = config
+  const pending = new Map<string, PendingSnapshot>()
+  const restoring = new Map<string, Promise<void>>()
+
+  async function save(roomId: string): Promise<void> {
+    const [document, metadata, events] = await Promise.all([
+      adapter.getDocument(roomId),
+      adapter.getRoomMetadata(roomId),
+      adapter.getEvents(roomId)
+    ])
+    await persistence.save(roomId, { document, metadata, events, savedAt: Date.now() })
+  }
+
+  function schedule(roomId: string): void {
+    const now = Date.now()
+    const existing = pending.get(roomId)
+    if (existing) clearTimeout(existing.timer)
+
+    const firstScheduledAt = existing?.firstScheduledAt ?? now
+    const delay = Math.max(0, Math.min(debounce, firstScheduledAt + maxWait - now))
+    const timer = setTimeout(() => {
+      pending.delete(roomId)
+      save(roomId).catch(error => logger.error('Failed to snapshot room', { roomId, error }))
+    }, delay)
+    pending.set(roomId, { timer, firstScheduledAt })
+  }
+
+  async function flush(roomId?: string): Promise<void> {
+    const roomIds = roomId !== undefined ? [roomId] : Array.from(pending.keys())
+    await Promise.all(roomIds.map(async (id) => {
+      const entry = pending.get(id)
+      if (!entry) return
+      clearTimeout(entry.timer)
+      pending.delete(id)
+      await save(id)
+    }))
+  }
+
+  // Seeds the adapter from the last snapshot; document merges are idempotent so a
+  // concurrent restore on another node is harmless
+  async function restore(roomId: string): Promise<void> {
+    const inFlight = restoring.get(roomId)
+    if (inFlight) return inFlight
+
+    const task = (async () => {
+      const snapshot = await persistence.load(roomId)
+      if (!snapshot) return
+
+      if (snapshot.document.length > 0) {
+        await adapter.applyDocumentUpdate(roomId, snapshot.document)
+      }
+      if (Object.keys(await adapter.getRoomMetadata(roomId)).length === 0) {
+        await adapter.setRoomMetadata(roomId, snapshot.metadata)
+      }
+      if ((await adapter.getEvents(roomId)).length === 0) {
+        await adapter.restoreEvents(roomId, snapshot.events)
+      }
+    })()
+
+    restoring.set(roomId, task)
+    try {
+      await task
+    } finally {
+      restoring.delete(roomId)
+    }
+  }
+
+  return { schedule, flush, restore }
+}
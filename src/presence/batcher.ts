@@ -0,0 +1,68 @@
+import type { Adapter, Logger, MemberPatch, MemberUpdate } from '../types.js'
+
+interface PresenceBatcherConfig {
+  tickRate?: number | ((roomId: string) => number)
+  publish: (roomId: string, patches: MemberPatch[]) => Promise<void>
+  logger: Logger
+}
+
+/**
+ * Coalesces cursor, typing and presence state changes per room and writes them once per tick, so a room
+ * costs one adapter write and one broadcast per tick instead of one per mouse move.
+ */
+export function createPresenceBatcher(adapter: Adapter, config: PresenceBatcherConfig) {
+  const { tickRate = 30, publish, logger } = config
+  // Pending changes per room, by session id
+  const dirty = new Map<string, Map<string, MemberPatch>>()
+  const timers = new Map<string, ReturnType<typeof setTimeout>>()
+  // Flushes of a room run one after another so batches are published in order
+  const flushing = new Map<string, Promise<void>>()
+
+  function rateFor(roomId: string): number {
+    return typeof tickRate === 'function' ? tickRate(roomId) : tickRate
+  }
+
+  // Rooms ticking at 0 Hz publish every change immediately instead
+  function isBatched(roomId: string): boolean {
+    return rateFor(roomId) > 0
+  }
+
+  function update(roomId: string, { sessionId, userId }: Pick<MemberPatch, 'sessionId' | 'userId'>, changes: MemberUpdate): void {
+    let patches = dirty.get(roomId)
+    if (!patches) {
+      patches = new Map()
+      dirty.set(roomId, patches)
+    }
+    patches.set(sessionId, { ...patches.get(sessionId), ...changes, sessionId, userId })
+
+    if (!timers.has(roomId)) {
+      timers.set(roomId, setTimeout(() => {
+        timers.delete(roomId)
+        void flush(roomId)
+      }, 1000 / rateFor(roomId)))
+    }
+  }
+
+  async function flush(roomId: string): Promise<void> {
+    const task = (flushing.get(roomId) ?? Promise.resolve()).then(async () => {
+      const patches = dirty.get(roomId)
+      if (!patches) return
+      dirty.delete(roomId)
+      const batch = Array.from(patches.values())
+      await adapter.updateMembers(roomId, batch)
+      await publish(roomId, batch)
+    }).catch(error => logger.error('Failed to publish presence', { roomId, error }))
+
+    flushing.set(roomId, task)
+    await task
+    if (flushing.get(roomId) === task) flushing.delete(roomId)
+  }
+
+  function close(): void {
+    timers.forEach(timer => clearTimeout(timer))
+    timers.clear()
+    dirty.clear()
+  }
+
+  return { isBatched, update, close }
+}
@@ -0,0 +1,57 @@
+import type { Activity, RoomMember, User } from '../types.js'
+
+// Most active first; a user is as active as their most active connection
+const ACTIVITY_RANK: Activity[] = ['active', 'idle', 'away']
+
+/**
+ * Merges per-connection presence into one entry per user, in the order users first joined.
+ * Cursor, presence, role and metadata come from the user's most recently active connection.
+ */
+export function mergeMembers(roomId: string, members: Iterable<RoomMember>): User[] {
+  const byUser = new Map<string, RoomMember[]>()
+  for (const member of members) {
+    const sessions = byUser.get(member.userId)
+    if (sessions) {
+      sessions.push(member)
+    } else {
+      byUser.set(member.userId, [member])
+    }
+  }
+
+  return Array.from(byUser, ([id, sessions]) => {
+    const latest = mostRecent(sessions)
+    const devices = new Set(sessions.flatMap(session => session.device ? [session.device] : []))
+    const activities = sessions.flatMap(session => session.status === 'online' && session.activity ? [session.activity] : [])
+    return {
+      id,
+      roomId,
+      cursor: mostRecentWith(sessions, 'cursor') ?? null,
+      typing: sessions.some(session => session.typing && session.status === 'online'),
+      role: latest.role,
+      status: sessions.some(session => session.status === 'online') ? 'online' : 'away',
+      metadata: latest.metadata,
+      sessionCount: sessions.length,
+      devices: Array.from(devices),
+      presence: mostRecentWith(sessions, 'presence'),
+      activity: ACTIVITY_RANK.find(activity => activities.includes(activity))
+    }
+  })
+}
+
+function mostRecent(sessions: RoomMember[]): RoomMember {
+  return sessions.reduce((latest, session) => session.lastActive > latest.lastActive ? session : latest)
+}
+
+// A tab that just opened has no cursor or presence yet and shouldn't hide the ones still in use
+function mostRecentWith<K extends 'cursor' | 'presence'>(sessions: RoomMember[], field: K): RoomMember[K] | undefined {
+  const candidates = sessions.filter(session => session[field] != null)
+  return candidates.length > 0 ? mostRecent(candidates)[field] : undefined
+}
+
+// A coarse label for a connection's device when the client didn't name one
+export function deviceFromUserAgent(userAgent?: string): string | undefined {
+  if (!userAgent) return undefined
+  if (/iPad|Tablet/i.test(userAgent)) return 'tablet'
+  if (/Mobi|Android|iPhone/i.test(userAgent)) return 'mobile'
+  return 'desktop'
+}
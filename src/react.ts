@@ -0,0 +1,200 @@
+import { createContext, createElement, useContext, useEffect, useMemo, useRef, useSyncExternalStore } from 'react'
+import type { ReactNode } from 'react'
+import type { CollabClient, ConnectionState, PresenceState, ServerMessage, User } from './types.js'
+
+export interface CollabProviderProps<P extends PresenceState = PresenceState> {
+  client: CollabClient<P>
+  // Room the hooks read from (default: the client's first room)
+  roomId?: string
+  children?: ReactNode
+}
+
+// Everything the hooks read, replaced as a whole whenever any of it changes
+interface CollabSnapshot<P extends PresenceState = PresenceState> {
+  state: ConnectionState
+  users: User<P>[]
+  userId: string | null
+}
+
+interface CollabStore<P extends PresenceState = PresenceState> {
+  client: CollabClient<P>
+  roomId: string
+  subscribe(listener: () => void): () => void
+  getSnapshot(): CollabSnapshot<P>
+}
+
+// Client events after which the snapshot is read again
+const CLIENT_EVENTS = ['state', 'session'] as const
+const ROOM_EVENTS = ['presence', 'update', 'kicked'] as const
+
+/**
+ * Listens to the client only while some component is subscribed, so unmounting the
+ * last hook leaves no listeners behind.
+ */
+function createCollabStore<P extends PresenceState>(client: CollabClient<P>, roomId: string): CollabStore<P> {
+  const listeners = new Set<() => void>()
+  let snapshot = read()
+  let unsubscribers: Array<() => void> = []
+
+  function read(): CollabSnapshot<P> {
+    return { state: client.getState(), users: client.getUsers(roomId), userId: client.getUserId() }
+  }
+
+  function refresh() {
+    snapshot = read()
+    listeners.forEach(listener => listener())
+  }
+
+  function onRoomEvent(data: ServerMessage<P>) {
+    if (data.roomId === roomId) refresh()
+  }
+
+  return {
+    client,
+    roomId,
+    subscribe(listener) {
+      if (listeners.size === 0) {
+        unsubscribers = [
+          ...CLIENT_EVENTS.map(type => client.on(type, refresh)),
+          ...ROOM_EVENTS.map(type => client.on(type, onRoomEvent))
+        ]
+        // Events may have arrived while nobody was listening
+        snapshot = read()
+      }
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+        if (listeners.size === 0) {
+          unsubscribers.forEach(unsubscribe => unsubscribe())
+          unsubscribers = []
+        }
+      }
+    },
+    getSnapshot: () => snapshot
+  }
+}
+
+/**
+ * Creates a provider and hooks bound to one presence type, so the client and users they
+ * hand out are typed with it: `export const { CollabProvider, useOthers } = createCollabHooks<Presence>()`.
+ */
+export function createCollabHooks<P extends PresenceState = PresenceState>() {
+  const CollabContext = createContext<CollabStore<P> | null>(null)
+
+  // Makes one client, and one of its rooms, available to the hooks below
+  function CollabProvider({ client, roomId, children }: CollabProviderProps<P>) {
+    const room = roomId ?? client.getRooms()[0] ?? 'default'
+    const store = useMemo(() => createCollabStore(client, room), [client, room])
+    return createElement(CollabContext.Provider, { value: store }, children)
+  }
+
+  function useStore(): CollabStore<P> {
+    const store = useContext(CollabContext)
+    if (!store) {
+      throw new Error('Collab hooks must be used inside a <CollabProvider>.')
+    }
+    return store
+  }
+
+  /**
+   * Subscribes to the part of the snapshot picked by `selector`. The component re-renders
+   * only when `isEqual` says the picked value changed, so a cursor moving elsewhere in the
+   * room doesn't re-render a list of names.
+   */
+  function useSelector<T>(selector: (snapshot: CollabSnapshot<P>) => T, isEqual: (a: T, b: T) => boolean = Object.is): T {
+    const store = useStore()
+    const latest = useRef<{ snapshot: CollabSnapshot<P>; selector: typeof selector; selection: T } | null>(null)
+    const getSelection = () => {
+      const snapshot = store.getSnapshot()
+      const previous = latest.current
+      if (previous && previous.snapshot === snapshot && previous.selector === selector) return previous.selection
+      const selection = selector(snapshot)
+      const kept = previous && isEqual(previous.selection, selection) ? previous.selection : selection
+      latest.current = { snapshot, selector, selection: kept }
+      return kept
+    }
+    return useSyncExternalStore(store.subscribe, getSelection, getSelection)
+  }
+
+  // The client provided to the nearest CollabProvider, for sending
+  function useClient(): CollabClient<P> {
+    return useStore().client
+  }
+
+  function useConnectionState(): ConnectionState {
+    return useSelector(snapshot => snapshot.state)
+  }
+
+  // Everyone in the room except the current user, who appears once however many tabs they have open
+  function useOthers(): User<P>[]
+  function useOthers<T>(selector: (others: User<P>[]) => T, isEqual?: (a: T, b: T) => boolean): T
+  function useOthers<T>(selector?: (others: User<P>[]) => T, isEqual?: (a: T | User<P>[], b: T | User<P>[]) => boolean): T | User<P>[] {
+    return useSelector(snapshot => selector ? selector(others(snapshot)) : others(snapshot), isEqual ?? shallow)
+  }
+
+  // The current user as the room sees them; null until the first presence arrives
+  function useSelf(): User<P> | null
+  function useSelf<T>(selector: (self: User<P> | null) => T, isEqual?: (a: T, b: T) => boolean): T
+  function useSelf<T>(selector?: (self: User<P> | null) => T, isEqual?: (a: T | User<P> | null, b: T | User<P> | null) => boolean): T | User<P> | null {
+    return useSelector(snapshot => {
+      const self = snapshot.users.find(user => user.id === snapshot.userId) ?? null
+      return selector ? selector(self) : self
+    }, isEqual ?? shallow)
+  }
+
+  // Other users who are typing right now
+  function useTypingUsers(): User<P>[] {
+    return useOthers(users => users.filter(user => user.typing), shallow)
+  }
+
+  // Another user's cursor, or null while they have none; only that user's moves re-render
+  function useCursor(userId: string): { x: number; y: number } | null {
+    return useSelector(
+      snapshot => snapshot.users.find(user => user.id === userId)?.cursor ?? null,
+      (a, b) => a === b || (a !== null && b !== null && a.x === b.x && a.y === b.y)
+    )
+  }
+
+  /**
+   * Calls `callback` for every custom event named `event` in the provider's room. The
+   * latest callback is always used, so it doesn't need to be memoized.
+   */
+  function useCustomEvent<T = unknown>(event: string, callback: (data: T, user: User<P> | undefined, message: ServerMessage<P>) => void): void {
+    const { client, roomId } = useStore()
+    const latest = useRef(callback)
+    useEffect(() => {
+      latest.current = callback
+    })
+    useEffect(() => client.room(roomId).on('custom', (message) => {
+      if (message.event === event) latest.current(message.data as T, message.user, message)
+    }), [client, roomId, event])
+  }
+
+  return { CollabProvider, useClient, useConnectionState, useOthers, useSelf, useTypingUsers, useCursor, useCustomEvent }
+}
+
+// Compares arrays item by item and objects key by key, for selectors that build new ones
+export function shallow<T>(a: T, b: T): boolean {
+  if (Object.is(a, b)) return true
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false
+  if (Array.isArray(a) !== Array.isArray(b)) return false
+  const keysA = Object.keys(a)
+  if (keysA.length !== Object.keys(b).length) return false
+  return keysA.every(key => Object.hasOwn(b, key) && Object.is(a[key as keyof T], b[key as keyof T]))
+}
+
+function others<P extends PresenceState>(snapshot: CollabSnapshot<P>): User<P>[] {
+  return snapshot.users.filter(user => user.id !== snapshot.userId)
+}
+
+// Bound to untyped presence; call createCollabHooks with your presence shape for typed hooks
+export const {
+  CollabProvider,
+  useClient,
+  useConnectionState,
+  useOthers,
+  useSelf,
+  useTypingUsers,
+  useCursor,
+  useCustomEvent
+} = createCollabHooks()
@@ -0,0 +1,182 @@
+import type { JsonValue } from './types.js'
+
+export interface ValidationIssue {
+  path: string
+  message: string
+}
+
+export type ValidationResult<T> =
+  | { success: true; value: T }
+  | { success: false; issues: ValidationIssue[] }
+
+type Check = (value: unknown, path: string, issues: ValidationIssue[]) => void
+
+/**
+ * Runtime validator that also carries the static type it accepts, so message types can
+ * be inferred from the same definitions the server checks against.
+ */
+export class Schema<T> {
+  declare readonly _type: T
+
+  constructor(private readonly check: Check) {}
+
+  validate(value: unknown): ValidationResult<T> {
+    const issues: ValidationIssue[] = []
+    this.check(value, '', issues)
+    return issues.length === 0 ? { success: true, value: value as T } : { success: false, issues }
+  }
+
+  optional(): Schema<T | undefined> {
+    return new Schema((value, path, issues) => {
+      if (value !== undefined) this.check(value, path, issues)
+    })
+  }
+
+  // The test returns a message when the value is invalid; it only runs once the base checks pass
+  refine(test: (value: T) => string | void): Schema<T> {
+    return new Schema((value, path, issues) => {
+      const before = issues.length
+      this.check(value, path, issues)
+      if (issues.length > before) return
+      const message = test(value as T)
+      if (message) report(issues, path, message)
+    })
+  }
+
+  /** @internal */
+  run(value: unknown, path: string, issues: ValidationIssue[]): void {
+    this.check(value, path, issues)
+  }
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never
+
+type Shape = Record<string, Schema<unknown>>
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {}
+
+type InferShape<S extends Shape> = Simplify<
+  { [K in keyof S as undefined extends Infer<S[K]> ? never : K]: Infer<S[K]> } &
+  { [K in keyof S as undefined extends Infer<S[K]> ? K : never]?: Infer<S[K]> }
+>
+
+function report(issues: ValidationIssue[], path: string, message: string): void {
+  issues.push({ path: path || '(root)', message })
+}
+
+function childPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`
+  return path ? `${path}.${key}` : key
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false
+  const prototype = Object.getPrototypeOf(value)
+  return prototype === Object.prototype || prototype === null
+}
+
+function string(options: { min?: number; max?: number; pattern?: RegExp } = {}): Schema<string> {
+  const { min = 0, max = Infinity, pattern } = options
+  return new Schema((value, path, issues) => {
+    if (typeof value !== 'string') return report(issues, path, 'must be a string')
+    if (value.length < min) return report(issues, path, `must be at least ${min} characters`)
+    if (value.length > max) return report(issues, path, `must be at most ${max} characters`)
+    if (pattern && !pattern.test(value)) report(issues, path, `must match ${pattern}`)
+  })
+}
+
+function number(options: { min?: number; max?: number; integer?: boolean } = {}): Schema<number> {
+  const { min = -Infinity, max = Infinity, integer = false } = options
+  return new Schema((value, path, issues) => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) return report(issues, path, 'must be a finite number')
+    if (integer && !Number.isInteger(value)) return report(issues, path, 'must be an integer')
+    if (value < min) return report(issues, path, `must be at least ${min}`)
+    if (value > max) report(issues, path, `must be at most ${max}`)
+  })
+}
+
+function boolean(): Schema<boolean> {
+  return new Schema((value, path, issues) => {
+    if (typeof value !== 'boolean') report(issues, path, 'must be a boolean')
+  })
+}
+
+function literal<const L extends ReadonlyArray<string | number | boolean | null>>(...values: L): Schema<L[number]> {
+  return new Schema((value, path, issues) => {
+    if (!values.includes(value as L[number])) {
+      report(issues, path, `must be ${values.map(item => JSON.stringify(item)).join(' or ')}`)
+    }
+  })
+}
+
+function unknown(): Schema<unknown> {
+  return new Schema(() => {})
+}
+
+function array<T>(item: Schema<T>, options: { max?: number } = {}): Schema<T[]> {
+  const { max = Infinity } = options
+  return new Schema((value, path, issues) => {
+    if (!Array.isArray(value)) return report(issues, path, 'must be an array')
+    if (value.length > max) return report(issues, path, `must have at most ${max} items`)
+    value.forEach((element, index) => item.run(element, childPath(path, index), issues))
+  })
+}
+
+// Unknown keys are rejected unless a `rest` schema says what they may hold
+function object<S extends Shape>(shape: S, options?: { maxKeys?: number }): Schema<InferShape<S>>
+function object<S extends Shape, R>(shape: S, options: { rest: Schema<R>; maxKeys?: number }): Schema<InferShape<S> & Record<string, R>>
+function object(shape: Shape, options: { rest?: Schema<unknown>; maxKeys?: number } = {}): Schema<unknown> {
+  const { rest, maxKeys = Infinity } = options
+  return new Schema((value, path, issues) => {
+    if (!isPlainObject(value)) return report(issues, path, 'must be an object')
+    const keys = Object.keys(value)
+    if (keys.length > maxKeys) return report(issues, path, `must have at most ${maxKeys} keys`)
+    for (const [key, field] of Object.entries(shape)) {
+      field.run(value[key], childPath(path, key), issues)
+    }
+    for (const key of keys) {
+      if (Object.hasOwn(shape, key)) continue
+      if (rest) {
+        rest.run(value[key], childPath(path, key), issues)
+      } else {
+        report(issues, childPath(path, key), 'is not allowed')
+      }
+    }
+  })
+}
+
+function union<S extends Schema<unknown>[]>(...options: S): Schema<Infer<S[number]>> {
+  return new Schema((value, path, issues) => {
+    const matches = options.some(option => {
+      const attempt: ValidationIssue[] = []
+      option.run(value, path, attempt)
+      return attempt.length === 0
+    })
+    if (!matches) report(issues, path, 'does not match any allowed shape')
+  })
+}
+
+// Plain JSON data: finite numbers, strings, booleans, null, arrays and plain objects
+function json(options: { maxDepth?: number } = {}): Schema<JsonValue> {
+  const { maxDepth = 32 } = options
+  const visit = (value: unknown, path: string, issues: ValidationIssue[], depth: number): void => {
+    if (depth > maxDepth) return report(issues, path, `must be nested at most ${maxDepth} levels deep`)
+    if (value === null || typeof value === 'string' || typeof value === 'boolean') return
+    if (typeof value === 'number') {
+      if (!Number.isFinite(value)) report(issues, path, 'must be a finite number')
+      return
+    }
+    if (Array.isArray(value)) {
+      value.forEach((element, index) => visit(element, childPath(path, index), issues, depth + 1))
+      return
+    }
+    if (isPlainObject(value)) {
+      for (const [key, element] of Object.entries(value)) visit(element, childPath(path, key), issues, depth + 1)
+      return
+    }
+    report(issues, path, 'must be JSON data')
+  }
+  return new Schema((value, path, issues) => visit(value, path, issues, 0))
+}
+
+export const schema = { string, number, boolean, literal, unknown, array, object, union, json }
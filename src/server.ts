@@ -1,212 +1,1303 @@
 import { WebSocketServer, WebSocket } from 'ws'
-import type { ServerConfig, User, ClientMessage, ServerMessage, Adapter, AuthResult } from './types.js'
+import { createServer, STATUS_CODES } from 'http'
+import type { IncomingMessage, ServerResponse } from 'http'
+import type { Duplex } from 'stream'
+import type { BotOptions, CollabClient, CloseOptions, ControlMessage, MemberPatch, MemberUpdate, PresenceState, UserPatch, ErrorCode, KickOptions, BanOptions, RoomSummary, ServerConfig, User, UserMetadata, ClientMessage, ServerMessage, Adapter, AuthResult, CollabServer, RoomRole, RoomMetadata, Session, Codec, CodecName, RequestHandler, MessageType, ClientMessageOf, Middleware, TransformHook, HookContext, JoinRequest, CustomMessage, LeaveContext, LeaveReason, DisconnectContext } from './types.js'
+import { createCollabClient } from './client.js'
 import { MemoryAdapter } from './adapters/memory.js'
 import { RedisAdapter } from './adapters/redis.js'
+import { CollabError, ValidationError, RateLimitError, CloseCode } from './errors.js'
+import { createMessageSchemas, DEFAULT_LIMITS } from './messages.js'
+import type { Schema } from './schema.js'
+import { createSnapshotScheduler } from './persistence/snapshots.js'
+import { createPresenceBatcher } from './presence/batcher.js'
+import { deviceFromUserAgent } from './presence/members.js'
+import { createRateLimiter } from './limits/rate-limiter.js'
+import { createAdminHandler } from './admin.js'
+import { createServerMetrics } from './metrics.js'
+import { createConsoleLogger } from './logger.js'
+import { instrumentAdapter } from './adapters/instrumented.js'
+import { runHooks, notifyHooks, runMiddleware } from './hooks.js'
+import { codecForProtocol, jsonCodec, msgpackCodec } from './codecs/index.js'
 
 interface ClientConnection {
   ws: WebSocket
   userId: string
-  roomId: string
+  rooms: Map<string, RoomRole>
   metadata?: User['metadata']
+  session: Session
+  device?: string
+  // Role of a bot created with createBot, used in place of authorizeRoom
+  botRole?: RoomRole
+  // Presence state per room, kept here so patches can be merged before they are validated
+  presence: Map<string, PresenceState>
+  // When the connection's credentials expire, and the timer that warns about and enforces it
+  expiresAt?: number
+  expiryTimer?: ReturnType<typeof setTimeout>
+  expiryWarned?: boolean
+}
+
+// Close codes after which a session ends at once instead of waiting to be resumed
+const FINAL_CLOSE_CODES: ReadonlySet<number> = new Set([1000, CloseCode.SESSION_REVOKED, CloseCode.KICKED])
+
+// Longest delay setTimeout supports; later expiries are rescheduled when it fires
+const MAX_TIMER_DELAY = 2 ** 31 - 1
+
+// Longest a closed socket's cleanup waits for the message it was still handling
+const CLOSE_WAIT_TIMEOUT = 5000
+
+type RoomAction = 'cursor' | 'typing' | 'custom' | 'edit' | 'kick'
+
+// A message from a joined connection, resolved to the room it targets
+interface MessageContext<M extends ClientMessage = ClientMessage> {
+  conn: ClientConnection
+  roomId: string
+  data: M
+}
+
+type MessageHandlers = {
+  [T in MessageType]?: (context: MessageContext<ClientMessageOf<T>>) => Promise<void>
 }
 
-export function createCollabServer(config: ServerConfig = {}) {
-  const { port = 3001, auth, adapter: adapterConfig } = config
+// Viewers only receive presence and documents; editors can interact; admins can also moderate
+const ROLE_PERMISSIONS: Record<RoomRole, ReadonlySet<RoomAction>> = {
+  viewer: new Set(),
+  editor: new Set(['cursor', 'typing', 'custom', 'edit']),
+  admin: new Set(['cursor', 'typing', 'custom', 'edit', 'kick'])
+}
+
+// Presence fields a batched update can carry
+const PATCH_FIELDS = ['cursor', 'typing', 'presence', 'activity'] as const
+
+// Role used when no authorizeRoom hook is configured
+const DEFAULT_ROLE: RoomRole = 'editor'
+
+// Upgrade request header carrying a bot's secret, so bots skip the upgrade hooks meant for users
+const BOT_HEADER = 'x-collab-bot'
+
+export function createCollabServer(config: ServerConfig = {}): CollabServer {
+  const { port = 3001, server, noServer = false, path, onUpgrade, auth, adapter: adapterConfig, persistence, history, reconnectGracePeriod = 30000, tickRate } = config
+  const { heartbeatInterval = 30000, heartbeatTimeout = heartbeatInterval * 2 } = config
+  const refreshWindow = auth?.refreshWindow ?? 60000
+  const enabledCodecs: CodecName[] = config.codecs ?? ['json', 'msgpack']
+  const { maxMessageBytes = 1024 * 1024, maxUsersPerRoom = Infinity, maxPresenceBytes = DEFAULT_LIMITS.maxPresenceBytes, rateLimits } = config.limits ?? {}
+  const logger = config.logger ?? createConsoleLogger()
+  const metrics = createServerMetrics()
+  const metricsConfig = config.metrics === true ? {} : config.metrics || null
+  const metricsPath = metricsConfig?.path ?? '/metrics'
   
-  const wss = new WebSocketServer({ port })
+  const wss = new WebSocketServer({
+    // Upgrades are always routed through handleUpgrade so the path filter and
+    // upgrade hooks run the same way whether we own the HTTP server or not.
+    noServer: true,
+    // Larger messages close the socket with 1009 before they are buffered
+    maxPayload: maxMessageBytes,
+    // Of the subprotocols a client offers, the first one naming an enabled codec wins
+    handleProtocols: (protocols) => {
+      const accepted = Array.from(protocols).find(protocol => {
+        const codec = codecForProtocol(protocol)
+        return codec !== undefined && enabledCodecs.includes(codec.name)
+      })
+      return accepted ?? false
+    }
+  })
+  const handleAdminRequest = config.admin
+    ? createAdminHandler({ listRooms, getUsers, kick, ban, unban, closeRoom, broadcast: systemBroadcast }, config.admin, logger)
+    : async () => false
+  const httpServer = server ?? (noServer ? null : createServer(async (req, res) => {
+    if (await handleAdminRequest(req, res)) return
+    if (metricsConfig && new URL(req.url ?? '/', 'http://localhost').pathname === metricsPath) {
+      await serveMetrics(req, res)
+      return
+    }
+    const body = STATUS_CODES[426]!
+    res.writeHead(426, { 'Content-Type': 'text/plain', 'Content-Length': Buffer.byteLength(body) })
+    res.end(body)
+  }))
   const connections = new Map<WebSocket, ClientConnection>()
+  // Codec per socket, from its subprotocol or else from the frame type of its first message
+  const socketCodecs = new WeakMap<WebSocket, Codec>()
   
   // Initialize adapter
-  const adapter: Adapter = adapterConfig?.type === 'redis'
-    ? new RedisAdapter(adapterConfig.redis)
-    : new MemoryAdapter()
+  // Persisted rooms keep an event log, so history is implied by persistence
+  const historyEnabled = Boolean(history || persistence)
+  const historyOptions = { history: typeof history === 'object' ? history : undefined }
+  const adapter: Adapter = instrumentAdapter(adapterConfig?.type === 'redis'
+    ? new RedisAdapter(adapterConfig.redis, historyOptions)
+    : new MemoryAdapter(historyOptions), metrics, config.traceAdapter)
+
+  const snapshots = persistence ? createSnapshotScheduler(adapter, persistence, logger) : null
+  const presence = createPresenceBatcher(adapter, {
+    tickRate,
+    publish: publishPresence,
+    logger
+  })
+  const rateLimiter = rateLimits === false ? null : createRateLimiter(adapter, rateLimits)
+
+  // Pending removals of users who disconnected and may still resume their session
+  const graceTimers = new Map<ReturnType<typeof setTimeout>, Session>()
+  // Close handlers still running, which shutdown waits for before disconnecting the adapter
+  const closeTasks = new Set<Promise<void>>()
+  // Set once close() starts; new connections are refused from then on
+  let draining = false
+  let closing: Promise<void> | null = null
+
+  // Last sign of life (message or pong) per socket, used to terminate half-open connections
+  const lastSeen = new Map<WebSocket, number>()
+  const heartbeatTimer = setInterval(() => {
+    checkLiveness().catch(error => logger.error('Heartbeat failed', { error }))
+  }, heartbeatInterval)
+  adapter.heartbeat(heartbeatInterval * 3).catch(error => logger.error('Heartbeat failed', { error }))
+  let controlRetryTimer: ReturnType<typeof setTimeout> | undefined
+  subscribeControl()
+
+  // Identities of this node's bots, by the secret token each one joins with
+  const botIdentities = new Map<string, { userId: string; role: RoomRole; metadata?: UserMetadata }>()
+  const bots = new Set<CollabClient>()
+
+  const requestHandlers = new Map<string, RequestHandler>()
+  const messageSchemas = createMessageSchemas(config.limits)
+  const eventSchemas = new Map<string, Schema<unknown>>()
+  let presenceSchema: Schema<unknown> | null = null
+  const middleware: Middleware[] = []
+  const hooks = {
+    join: [] as Array<TransformHook<JoinRequest>>,
+    leave: [] as Array<(context: LeaveContext) => Promise<void> | void>,
+    cursor: [] as Array<TransformHook<{ x: number; y: number }>>,
+    typing: [] as Array<TransformHook<boolean>>,
+    custom: [] as Array<TransformHook<CustomMessage>>,
+    disconnect: [] as Array<(context: DisconnectContext) => Promise<void> | void>
+  }
+  // Messages that need a joined room; join, ping and pong are handled before these
+  const messageHandlers: MessageHandlers = {
+    leave: handleLeave,
+    cursor: handleCursor,
+    typing: handleTyping,
+    'set-presence': handleSetPresence,
+    custom: handleCustom,
+    request: handleRequest,
+    'doc-sync': handleDocSync,
+    'doc-update': handleDocUpdate,
+    kick: handleKick
+  }
 
   // Subscribe to room broadcasts
   const roomSubscriptions = new Map<string, (message: ServerMessage) => void>()
 
-  wss.on('connection', async (ws: WebSocket) => {
-    let connection: ClientConnection | null = null
+  const onServerUpgrade = (request: IncomingMessage, socket: Duplex, head: Buffer) => {
+    // On a shared server, leave other paths to whoever else handles upgrades
+    if (server && !matchesPath(request) && server.listenerCount('upgrade') > 1) return
+    void handleUpgrade(request, socket, head)
+  }
 
-    ws.on('message', async (msg: Buffer) => {
-      try {
-        const data = JSON.parse(msg.toString()) as ClientMessage
-
-        // Handle join/authentication
-        if (data.type === 'join') {
-          // If already connected, handle room switching
-          if (connection && data.roomId && data.roomId !== connection.roomId) {
-            await adapter.leaveRoom(connection.roomId, connection.userId)
-            await unsubscribeFromRoom(connection.roomId)
-            
-            connection.roomId = data.roomId
-            await adapter.joinRoom(data.roomId, connection.userId, connection.metadata)
-            await subscribeToRoom(data.roomId)
-            await broadcastToRoom(data.roomId, { type: 'presence', users: await adapter.getUsers(data.roomId) })
-            return
-          }
+  if (httpServer) {
+    httpServer.on('upgrade', onServerUpgrade)
+    if (!server) httpServer.listen(port)
+  }
 
-          // Initial join - handle authentication
-          if (!auth) {
-            // No auth required - create anonymous user
-            const userId = crypto.randomUUID()
-            const roomId = data.roomId || 'default'
-            connection = {
-              ws,
-              userId,
-              roomId,
-              metadata: data.metadata
-            }
-            connections.set(ws, connection)
-            await adapter.joinRoom(roomId, userId, data.metadata)
-            await subscribeToRoom(roomId)
-            await broadcastToRoom(roomId, { type: 'presence', users: await adapter.getUsers(roomId) })
-            return
-          }
+  function matchesPath(request: IncomingMessage): boolean {
+    if (!path) return true
+    const { pathname } = new URL(request.url ?? '/', 'http://localhost')
+    return pathname === path
+  }
 
-          // Auth required - verify token
-          if (!data.token) {
-            ws.send(JSON.stringify({ type: 'error', error: 'Authentication required. Token missing.' }))
-            return
-          }
+  async function handleUpgrade(request: IncomingMessage, socket: Duplex, head: Buffer): Promise<void> {
+    socket.on('error', () => socket.destroy())
 
-          const authResult: AuthResult = await auth.verifyToken(data.token)
-          
-          if (authResult.error) {
-            ws.send(JSON.stringify({ type: 'error', error: authResult.error }))
-            return
-          }
+    if (!matchesPath(request)) {
+      rejectUpgrade(socket, 404)
+      return
+    }
 
-          const roomId = data.roomId || 'default'
-          connection = {
-            ws,
-            userId: authResult.userId,
-            roomId,
-            metadata: authResult.metadata || data.metadata
-          }
-          connections.set(ws, connection)
-          await adapter.joinRoom(roomId, authResult.userId, connection.metadata)
-          await subscribeToRoom(roomId)
-          await broadcastToRoom(roomId, { type: 'presence', users: await adapter.getUsers(roomId) })
+    try {
+      // Bots prove who they are with the same secret when they join
+      const botSecret = request.headers[BOT_HEADER]
+      const isBot = typeof botSecret === 'string' && botIdentities.has(botSecret)
+
+      if (onUpgrade && !isBot) {
+        const rejection = await onUpgrade(request)
+        if (rejection) {
+          rejectUpgrade(socket, rejection.status, rejection.message)
           return
         }
+      }
 
-        if (!connection) {
-          ws.send(JSON.stringify({ type: 'error', error: 'Not authenticated. Send join message first.' }))
+      // Cookie/header based auth happens here so the socket is authenticated before join
+      let preAuth: AuthResult | null = null
+      if (auth?.verifyRequest && !isBot) {
+        preAuth = await auth.verifyRequest(request)
+        if (preAuth?.error) {
+          rejectUpgrade(socket, 401, preAuth.error)
           return
         }
+      }
 
-        if (data.type === 'leave') {
-          await adapter.leaveRoom(connection.roomId, connection.userId)
-          await unsubscribeFromRoom(connection.roomId)
-          await broadcastToRoom(connection.roomId, { type: 'presence', users: await adapter.getUsers(connection.roomId) })
-          return
+      if (socket.destroyed) return
+      if (draining) {
+        rejectUpgrade(socket, 503)
+        return
+      }
+      wss.handleUpgrade(request, socket, head, (ws) => {
+        wss.emit('connection', ws, request, preAuth)
+      })
+    } catch (error) {
+      // Upgrade hooks may throw anything, so details stay in the log rather than reaching the client
+      logger.error('Failed to handle upgrade', { url: request.url, error })
+      rejectUpgrade(socket, 500)
+    }
+  }
+
+  wss.on('connection', async (ws: WebSocket, request: IncomingMessage, preAuth: AuthResult | null) => {
+    let connection: ClientConnection | null = null
+    metrics.connections.inc()
+    metrics.connectionsTotal.inc()
+
+    const negotiated = codecForProtocol(ws.protocol)
+    if (negotiated) socketCodecs.set(ws, negotiated)
+
+    lastSeen.set(ws, Date.now())
+    ws.on('pong', () => lastSeen.set(ws, Date.now()))
+    // Protocol errors such as oversized messages already close the socket with a matching code
+    ws.on('error', () => {})
+
+    // Messages are handled one at a time so a join finishes before anything sent after it
+    let processing = Promise.resolve()
+    ws.on('message', (msg: Buffer, isBinary: boolean) => {
+      lastSeen.set(ws, Date.now())
+      processing = processing.then(() => handleMessage(msg, isBinary))
+    })
+
+    async function authenticate(data: ClientMessageOf<'join'>, resumable: Session | null): Promise<{ userId: string; metadata?: UserMetadata; expiresAt?: number; botRole?: RoomRole } | null> {
+      const bot = data.token ? botIdentities.get(data.token) : undefined
+      if (bot) {
+        return { userId: bot.userId, metadata: { ...bot.metadata, bot: true }, botRole: bot.role }
+      }
+
+      if (!auth) {
+        // No auth required - anonymous users are identified by their session alone
+        return {
+          userId: resumable?.userId ?? crypto.randomUUID(),
+          metadata: data.metadata ?? resumable?.metadata
         }
+      }
 
-        // Handle cursor updates
-        if (data.type === 'cursor' && data.position && connection) {
-          const conn = connection
-          await adapter.updateUser(conn.roomId, conn.userId, { cursor: data.position })
-          const user = (await adapter.getUsers(conn.roomId)).find(u => u.id === conn.userId)
-          if (user) {
-            await broadcastToRoom(conn.roomId, { type: 'update', user }, conn.userId)
-          }
+      // Auth required - use the upgrade request's credentials or verify the token
+      if (!preAuth && !data.token) {
+        return rejectAuth('AUTH_REQUIRED', 'Authentication required. Token missing.')
+      }
+
+      let authResult: AuthResult
+      try {
+        authResult = data.token ? await auth.verifyToken(data.token, request) : preAuth!
+      } catch (error) {
+        // An unavailable auth backend isn't the client's fault, so it may reconnect and retry
+        sendError(ws, error, undefined, 'join')
+        ws.close(CloseCode.INTERNAL_ERROR, 'INTERNAL_ERROR')
+        return null
+      }
+      
+      if (authResult.error) {
+        return rejectAuth('INVALID_TOKEN', authResult.error)
+      }
+      if (authResult.expiresAt !== undefined && authResult.expiresAt <= Date.now()) {
+        return rejectAuth('INVALID_TOKEN', 'Token has expired.')
+      }
+
+      return {
+        userId: authResult.userId,
+        metadata: authResult.metadata || data.metadata,
+        expiresAt: authResult.expiresAt
+      }
+    }
+
+    // Failed authentication ends the connection with a close code clients won't reconnect after
+    function rejectAuth(code: ErrorCode & keyof typeof CloseCode, message: string): null {
+      send(ws, { type: 'error', code, error: message, requestType: 'join' })
+      ws.close(CloseCode[code], code)
+      return null
+    }
+
+    function decode(msg: Buffer, isBinary: boolean): unknown {
+      let codec = socketCodecs.get(ws)
+      if (!codec) {
+        codec = isBinary ? msgpackCodec : jsonCodec
+        if (!enabledCodecs.includes(codec.name)) {
+          throw new CollabError('INVALID_MESSAGE', `The ${codec.name} codec is not enabled on this server.`)
+        }
+        socketCodecs.set(ws, codec)
+      }
+      try {
+        return codec.decode(isBinary ? msg : msg.toString())
+      } catch {
+        throw new CollabError('INVALID_MESSAGE', `Message is not valid ${codec.name}.`)
+      }
+    }
+
+    async function handleMessage(msg: Buffer, isBinary: boolean): Promise<void> {
+      let requestId: string | undefined
+      let requestType: string | undefined
+      try {
+        const decoded = decode(msg, isBinary) as { type?: unknown; requestId?: unknown }
+        if (typeof decoded?.requestId === 'string') requestId = decoded.requestId
+        if (typeof decoded?.type === 'string') requestType = decoded.type
+        const message = validateMessage(decoded)
+        metrics.messagesReceived.inc({ type: message.type })
+        if (!(await admit(message, requestId))) return
+        const context = { message, userId: connection?.userId, sessionId: connection?.session.id, request }
+        await runMiddleware(middleware, context, ({ message: data }) => dispatch(data))
+      } catch (error) {
+        sendError(ws, error, requestId, requestType)
+      }
+    }
+
+    // Over-limit messages are dropped; offenders are told once per streak and eventually disconnected
+    async function admit(message: ClientMessage, requestId?: string): Promise<boolean> {
+      if (!rateLimiter) return true
+      const verdict = await rateLimiter.check(ws, message.type, connection?.userId)
+      if (verdict.allowed) return true
+
+      // Requests are always answered so the caller isn't left waiting for a timeout
+      if (verdict.notify || requestId) {
+        sendError(ws, new RateLimitError(`Too many ${message.type} messages.`, verdict.retryAfter), requestId, message.type)
+      }
+      if (verdict.disconnect) {
+        ws.close(CloseCode.RATE_LIMITED, 'RATE_LIMITED')
+      }
+      return false
+    }
+
+    async function dispatch(data: ClientMessage): Promise<void> {
+      // Handle join/authentication
+      if (data.type === 'join') {
+        await join(data)
+        return
+      }
+
+      if (!connection) {
+        throw new CollabError('NOT_AUTHENTICATED', 'Not authenticated. Send join message first.')
+      }
+
+      if (data.type === 'reauth') {
+        await reauthenticate(connection, data)
+        return
+      }
+
+      if (data.type === 'ping') {
+        send(ws, { type: 'pong' })
+        return
+      }
+
+      if (data.type === 'pong') {
+        return
+      }
+
+      const handler = messageHandlers[data.type] as ((context: MessageContext) => Promise<void>) | undefined
+      if (handler) {
+        await handler({ conn: connection, roomId: resolveRoom(connection, data.roomId), data })
+      }
+    }
+
+    async function join(data: ClientMessageOf<'join'>): Promise<void> {
+      // The first join authenticates; later joins subscribe to additional rooms
+      if (!connection) {
+        const resumable = data.resume ? await adapter.getSession(data.resume) : null
+        const identity = await authenticate(data, resumable)
+        if (!identity) return
+        if (await adapter.isBanned(identity.userId)) {
+          rejectAuth('BANNED', 'You are banned from this server.')
           return
         }
+        // The socket may have closed while the credentials were checked
+        if (ws.readyState !== WebSocket.OPEN) return
 
-        // Handle typing updates
-        if (data.type === 'typing' && typeof data.isTyping === 'boolean' && connection) {
-          const conn = connection
-          await adapter.updateUser(conn.roomId, conn.userId, { typing: data.isTyping })
-          const user = (await adapter.getUsers(conn.roomId)).find(u => u.id === conn.userId)
-          if (user) {
-            await broadcastToRoom(conn.roomId, { type: 'update', user }, conn.userId)
+        // A session only resumes for the identity that created it, and only once its connection
+        // is gone; a client that races its own live connection starts a session of its own
+        const resumed = resumable?.userId === identity.userId && (resumable.resumableUntil ?? 0) > Date.now() ? resumable : null
+        const session: Session = resumed
+          ? { ...resumed, metadata: identity.metadata, epoch: resumed.epoch + 1, resumableUntil: undefined }
+          : { id: crypto.randomUUID(), userId: identity.userId, metadata: identity.metadata, rooms: {}, epoch: 0 }
+        connection = {
+          ws,
+          userId: identity.userId,
+          rooms: new Map(),
+          presence: new Map(),
+          metadata: identity.metadata,
+          session,
+          device: data.device ?? deviceFromUserAgent(request.headers['user-agent']),
+          botRole: identity.botRole,
+          expiresAt: identity.expiresAt
+        }
+        connections.set(ws, connection)
+        scheduleExpiry(connection)
+        await adapter.saveSession(session)
+        send(ws, { type: 'session', sessionId: session.id, userId: session.userId, resumed: Boolean(resumed) })
+
+        // Resumed rooms were already admitted, so they skip authorization and join hooks, but not bans
+        for (const [roomId, role] of Object.entries(resumed?.rooms ?? {})) {
+          if (ws.readyState !== WebSocket.OPEN) return
+          if (await adapter.isBanned(connection.userId, roomId)) {
+            delete session.rooms[roomId]
+            continue
           }
-          return
+          await enterRoom(connection, roomId, role)
         }
+      }
 
-        if (data.type === 'ping') {
-          ws.send(JSON.stringify({ type: 'pong' }))
-          return
+      const roomId = data.roomId || 'default'
+      if (!connection.rooms.has(roomId)) {
+        const users = await adapter.getUsers(roomId)
+        // Users still in the room from another connection or a suspended session keep their seat
+        if (users.length >= maxUsersPerRoom && !users.some(user => user.id === connection!.userId)) {
+          throw new CollabError('ROOM_FULL', `Room ${roomId} is full.`)
+        }
+        if (await adapter.isBanned(connection.userId, roomId)) {
+          throw new CollabError('ROOM_ACCESS_DENIED', `You are banned from room ${roomId}.`)
+        }
+        const role = await authorizeRoom(connection, roomId)
+        const context = { userId: connection.userId, sessionId: connection.session.id, roomId, role, metadata: connection.metadata }
+        const accepted = await runHooks(hooks.join, { metadata: connection.metadata }, context)
+        if (!accepted) {
+          throw new CollabError('ROOM_ACCESS_DENIED', `Joining room ${roomId} was rejected.`)
         }
+        if (ws.readyState !== WebSocket.OPEN) return
+        await enterRoom(connection, roomId, role, accepted.metadata)
+      }
+      if (historyEnabled && typeof data.since === 'number') {
+        await replayHistory(connection, roomId, data.since)
+      }
+    }
 
-        if (data.type === 'pong') {
-          return
+    // New credentials must belong to the same user; failing to refresh keeps the old ones until they expire
+    async function reauthenticate(conn: ClientConnection, data: ClientMessageOf<'reauth'>): Promise<void> {
+      if (auth) {
+        const result = await auth.verifyToken(data.token, request)
+        if (result.error) {
+          throw new CollabError('INVALID_TOKEN', result.error)
+        }
+        if (result.userId !== conn.userId) {
+          throw new CollabError('FORBIDDEN', 'Token belongs to a different user.')
+        }
+        if (result.expiresAt !== undefined && result.expiresAt <= Date.now()) {
+          throw new CollabError('INVALID_TOKEN', 'Token has expired.')
         }
+        conn.expiresAt = result.expiresAt
+        conn.expiryWarned = false
+        scheduleExpiry(conn)
+      }
+      if (data.requestId) {
+        send(ws, { type: 'response', requestId: data.requestId, requestType: 'reauth' })
+      }
+    }
 
-        // Handle custom events
-        if (data.type === 'custom' && data.event && connection) {
-          const conn = connection
-          const user = (await adapter.getUsers(conn.roomId)).find(u => u.id === conn.userId)
-          await broadcastToRoom(conn.roomId, {
-            type: 'custom',
-            event: data.event,
-            data: data.data,
-            user: user ?? { id: conn.userId, roomId: conn.roomId, cursor: null, typing: false, metadata: conn.metadata }
-          }, conn.userId)
-          return
+    // Cleanup waits for the message being handled, so a join that was entering a room when
+    // the socket dropped is undone. Joins stop at their next step once the socket is closed,
+    // so a hook that hangs only holds cleanup up for CLOSE_WAIT_TIMEOUT.
+    ws.on('close', (code: number) => {
+      lastSeen.delete(ws)
+      metrics.connections.dec()
+      let waitTimer: ReturnType<typeof setTimeout> | undefined
+      const waited = new Promise<void>(resolve => {
+        waitTimer = setTimeout(resolve, CLOSE_WAIT_TIMEOUT)
+      })
+      const task = Promise.race([processing, waited])
+        .then(() => {
+          clearTimeout(waitTimer)
+          return handleClose(code)
+        })
+        .catch(error => logger.error('Failed to clean up connection', { userId: connection?.userId, error }))
+      closeTasks.add(task)
+      void task.finally(() => closeTasks.delete(task))
+    })
+
+    async function handleClose(code: number): Promise<void> {
+      if (!connection) return
+      connections.delete(ws)
+      clearTimeout(connection.expiryTimer)
+      logger.debug('Connection closed', { userId: connection.userId, sessionId: connection.session.id, code })
+      await notifyHooks(hooks.disconnect, {
+        userId: connection.userId,
+        sessionId: connection.session.id,
+        rooms: Array.from(connection.rooms.keys()),
+        code
+      }, logger)
+
+      // Anything but a deliberate disconnect, eviction or kick may reconnect within the grace period
+      if (reconnectGracePeriod > 0 && !FINAL_CLOSE_CODES.has(code)) {
+        await (draining ? handOffSession(connection) : suspendSession(connection))
+        return
+      }
+      for (const roomId of Array.from(connection.rooms.keys())) {
+        await leaveRoom(connection, roomId, 'disconnect')
+      }
+      await adapter.deleteSession(connection.session.id)
+    }
+  })
+
+  async function handleLeave({ conn, roomId }: MessageContext<ClientMessageOf<'leave'>>): Promise<void> {
+    await leaveRoom(conn, roomId, 'leave')
+  }
+
+  // Cursor moves are the hottest path, so only the user id and position go out
+  async function handleCursor({ conn, roomId, data }: MessageContext<ClientMessageOf<'cursor'>>): Promise<void> {
+    assertPermission(conn, roomId, 'cursor')
+    const position = await runHooks(hooks.cursor, data.position, hookContext(conn, roomId))
+    if (!position) return
+
+    const changes = { cursor: position, lastActive: Date.now() }
+    if (presence.isBatched(roomId)) {
+      presence.update(roomId, { sessionId: conn.session.id, userId: conn.userId }, changes)
+      return
+    }
+    await adapter.updateMember(roomId, conn.session.id, changes)
+    await broadcastToRoom(roomId, { type: 'cursor', userId: conn.userId, position, _excludeUserId: conn.userId })
+  }
+
+  async function handleTyping({ conn, roomId, data }: MessageContext<ClientMessageOf<'typing'>>): Promise<void> {
+    assertPermission(conn, roomId, 'typing')
+    const isTyping = await runHooks(hooks.typing, data.isTyping, hookContext(conn, roomId))
+    if (isTyping === null) return
+
+    const changes = { typing: isTyping, lastActive: Date.now() }
+    if (presence.isBatched(roomId)) {
+      presence.update(roomId, { sessionId: conn.session.id, userId: conn.userId }, changes)
+      return
+    }
+    await adapter.updateMember(roomId, conn.session.id, changes)
+    const user = (await adapter.getUsers(roomId)).find(u => u.id === conn.userId)
+    if (user) {
+      await broadcastToRoom(roomId, { type: 'update', user, _excludeUserId: conn.userId })
+    }
+  }
+
+  // Presence describes the user rather than the room, so viewers may set it too
+  async function handleSetPresence({ conn, roomId, data }: MessageContext<ClientMessageOf<'set-presence'>>): Promise<void> {
+    const now = Date.now()
+    const changes: MemberUpdate = {}
+    if (data.presence) {
+      const merged = { ...conn.presence.get(roomId) }
+      for (const [key, value] of Object.entries(data.presence)) {
+        if (value === null) {
+          delete merged[key]
+        } else {
+          merged[key] = value
         }
+      }
+      const size = new TextEncoder().encode(JSON.stringify(merged)).length
+      if (size > maxPresenceBytes) {
+        throw new ValidationError('INVALID_PAYLOAD', 'Presence is too large.', [{ path: 'presence', message: `must be at most ${maxPresenceBytes} bytes (got ${size})` }])
+      }
+      if (presenceSchema) {
+        const result = presenceSchema.validate(merged)
+        if (!result.success) {
+          throw new ValidationError('INVALID_PAYLOAD', 'Invalid presence.', result.issues)
+        }
+      }
+      conn.presence.set(roomId, merged)
+      changes.presence = merged
+      changes.lastActive = now
+    }
+    if (data.activity) {
+      changes.activity = data.activity
+      if (data.activity === 'active') changes.lastActive = now
+    }
+
+    if (presence.isBatched(roomId)) {
+      presence.update(roomId, { sessionId: conn.session.id, userId: conn.userId }, changes)
+    } else {
+      await adapter.updateMember(roomId, conn.session.id, changes)
+      const user = (await adapter.getUsers(roomId)).find(u => u.id === conn.userId)
+      if (user) {
+        await broadcastToRoom(roomId, { type: 'update', user, _excludeUserId: conn.userId })
+      }
+    }
+    if (data.requestId) {
+      send(conn.ws, { type: 'response', requestId: data.requestId })
+    }
+  }
+
+  async function handleCustom({ conn, roomId, data }: MessageContext<ClientMessageOf<'custom'>>): Promise<void> {
+    assertPermission(conn, roomId, 'custom')
+    const eventSchema = eventSchemas.get(data.event)
+    if (eventSchema) {
+      const result = eventSchema.validate(data.data)
+      if (!result.success) {
+        throw new ValidationError('INVALID_PAYLOAD', `Invalid data for event ${data.event}.`, result.issues)
+      }
+    }
+    const custom = await runHooks(hooks.custom, { event: data.event, data: data.data, targetUserId: data.targetUserId }, hookContext(conn, roomId))
+
+    // A message dropped by a hook still counts as accepted for the sender
+    if (custom?.targetUserId) {
+      await sendDirect(conn, roomId, custom)
+    } else if (custom) {
+      await broadcastCustom(conn, roomId, custom)
+    }
+    if (data.requestId) {
+      send(conn.ws, { type: 'response', requestId: data.requestId })
+    }
+  }
+
+  // Direct messages reach every socket of the target on any node and are kept out of history
+  async function sendDirect(conn: ClientConnection, roomId: string, custom: CustomMessage): Promise<void> {
+    const users = await adapter.getUsers(roomId)
+    const target = users.find(u => u.id === custom.targetUserId && u.status !== 'away')
+    if (!target) {
+      throw new CollabError('USER_NOT_FOUND', `User ${custom.targetUserId} is not connected to room ${roomId}.`)
+    }
+    await broadcastToRoom(roomId, {
+      type: 'custom',
+      event: custom.event,
+      data: custom.data,
+      user: describeUser(conn, roomId, users),
+      direct: true,
+      _targetUserId: target.id
+    })
+  }
+
+  async function broadcastCustom(conn: ClientConnection, roomId: string, custom: CustomMessage): Promise<void> {
+    const user = describeUser(conn, roomId, await adapter.getUsers(roomId))
+    const seq = historyEnabled
+      ? (await adapter.appendEvent(roomId, { event: custom.event, data: custom.data, user, sessionId: conn.session.id, timestamp: Date.now() })).seq
+      : undefined
+    await broadcastToRoom(roomId, {
+      type: 'custom',
+      event: custom.event,
+      data: custom.data,
+      user,
+      seq,
+      // The sender's other tabs get it like everyone else
+      _excludeSessionId: conn.session.id
+    })
+    snapshots?.schedule(roomId)
+  }
+
+  // Handlers run outside the message queue so a slow one doesn't hold up cursors
+  async function handleRequest({ conn, roomId, data }: MessageContext<ClientMessageOf<'request'>>): Promise<void> {
+    const { event, data: params, requestId } = data
+    const handler = requestHandlers.get(event)
+    if (!handler) {
+      throw new CollabError('NO_HANDLER', `No handler for request ${event}.`)
+    }
+    const context = { userId: conn.userId, roomId, role: conn.rooms.get(roomId)!, metadata: conn.metadata }
+    void (async () => {
+      try {
+        send(conn.ws, { type: 'response', requestId, data: await handler(params, context) })
       } catch (error) {
-        ws.send(JSON.stringify({ 
-          type: 'error', 
-          error: error instanceof Error ? error.message : 'Invalid message format' 
-        }))
+        sendError(conn.ws, error, requestId, 'request')
       }
+    })()
+  }
+
+  // Merge the client's (possibly offline) edits and reply with the full document
+  async function handleDocSync({ conn, roomId, data }: MessageContext<ClientMessageOf<'doc-sync'>>): Promise<void> {
+    if (data.update && data.update.length > 0) {
+      assertPermission(conn, roomId, 'edit')
+      await adapter.applyDocumentUpdate(roomId, data.update)
+      await broadcastToRoom(roomId, { type: 'doc-update', update: data.update })
+      snapshots?.schedule(roomId)
+    }
+    send(conn.ws, { type: 'doc-sync', roomId, update: await adapter.getDocument(roomId) })
+  }
+
+  // Document updates are idempotent, so they also go back to the sender's other tabs
+  async function handleDocUpdate({ conn, roomId, data }: MessageContext<ClientMessageOf<'doc-update'>>): Promise<void> {
+    assertPermission(conn, roomId, 'edit')
+    await adapter.applyDocumentUpdate(roomId, data.update)
+    await broadcastToRoom(roomId, { type: 'doc-update', update: data.update })
+    snapshots?.schedule(roomId)
+  }
+
+  // Handle kicks - the owning node of each target socket removes it from the room
+  async function handleKick({ conn, roomId, data }: MessageContext<ClientMessageOf<'kick'>>): Promise<void> {
+    assertPermission(conn, roomId, 'kick')
+    await kickFromRoom(roomId, data.targetUserId)
+  }
+
+  async function kickFromRoom(roomId: string, userId: string, reason?: string): Promise<void> {
+    const target = (await adapter.getUsers(roomId)).find(u => u.id === userId)
+    if (!target) {
+      throw new CollabError('USER_NOT_FOUND', `User ${userId} is not in room ${roomId}.`)
+    }
+    await broadcastToRoom(roomId, { type: 'kicked', user: target, reason })
+    await removeUser(roomId, target.id, 'kicked')
+  }
+
+  // Everyone is told at once, then removed one by one so leave hooks see each user
+  async function closeRoom(roomId: string, reason?: string): Promise<void> {
+    const users = await adapter.getUsers(roomId)
+    await broadcastToRoom(roomId, { type: 'kicked', reason })
+    for (const user of users) {
+      await removeUser(roomId, user.id, 'kicked')
+    }
+  }
+
+  async function listRooms(): Promise<RoomSummary[]> {
+    return adapter.listRooms()
+  }
+
+  async function getUsers(roomId: string): Promise<User[]> {
+    return adapter.getUsers(roomId)
+  }
+
+  async function kick(userId: string, { roomId, reason }: KickOptions = {}): Promise<void> {
+    if (roomId !== undefined) {
+      await kickFromRoom(roomId, userId, reason)
+    } else {
+      await adapter.publishControl({ type: 'kick', userId, reason })
+    }
+  }
+
+  // Users who are banned but not currently present only get the ban
+  async function ban(userId: string, { roomId, reason, duration }: BanOptions = {}): Promise<void> {
+    await adapter.banUser(userId, roomId, duration)
+    if (roomId === undefined) {
+      await adapter.publishControl({ type: 'kick', userId, reason })
+    } else if ((await adapter.getUsers(roomId)).some(user => user.id === userId)) {
+      await kickFromRoom(roomId, userId, reason)
+    }
+  }
+
+  async function unban(userId: string, { roomId }: { roomId?: string } = {}): Promise<void> {
+    await adapter.unbanUser(userId, roomId)
+  }
+
+  async function systemBroadcast(event: string, data?: unknown, { roomId }: { roomId?: string } = {}): Promise<void> {
+    if (roomId !== undefined) {
+      await broadcastToRoom(roomId, { type: 'system', event, data })
+    } else {
+      await adapter.publishControl({ type: 'system', event, data })
+    }
+  }
+
+  function validateMessage(value: { type?: unknown }): ClientMessage {
+    const type = value?.type
+    if (typeof type !== 'string' || !Object.hasOwn(messageSchemas, type)) {
+      throw new CollabError('UNKNOWN_MESSAGE_TYPE', `Unknown message type ${JSON.stringify(type)}.`)
+    }
+    const result = messageSchemas[type as MessageType].validate(value)
+    if (!result.success) {
+      throw new ValidationError('INVALID_MESSAGE', `Invalid ${type} message.`, result.issues)
+    }
+    return result.value as ClientMessage
+  }
+
+  // Failed requests and acked broadcasts are answered with a response; anything else gets an error.
+  // Only CollabErrors reach the client as they are, so internals of unexpected failures don't leak.
+  function sendError(ws: WebSocket, error: unknown, requestId?: string, requestType?: string): void {
+    let failure: CollabError
+    if (error instanceof CollabError) {
+      failure = error
+    } else {
+      logger.error('Failed to handle message', { type: requestType, error })
+      failure = new CollabError('INTERNAL_ERROR', 'Internal server error.')
+    }
+    send(ws, { 
+      type: requestId ? 'response' : 'error', 
+      requestId,
+      requestType,
+      code: failure.code,
+      error: failure.message,
+      issues: failure instanceof ValidationError ? failure.issues : undefined,
+      retryAfter: failure instanceof RateLimitError ? failure.retryAfter : undefined
     })
+  }
 
-    ws.on('close', async () => {
-      if (connection) {
-        await adapter.leaveRoom(connection.roomId, connection.userId)
-        await unsubscribeFromRoom(connection.roomId)
-        await broadcastToRoom(connection.roomId, { type: 'presence', users: await adapter.getUsers(connection.roomId) })
-        connections.delete(ws)
+  async function checkLiveness(): Promise<void> {
+    const now = Date.now()
+    lastSeen.forEach((seen, ws) => {
+      if (heartbeatTimeout > 0 && now - seen > heartbeatTimeout) {
+        // Closes with 1006, so the user gets the usual reconnect grace period
+        ws.terminate()
+      } else if (ws.readyState === WebSocket.OPEN) {
+        ws.ping()
       }
     })
-  })
+
+    await adapter.heartbeat(heartbeatInterval * 3)
+    for (const roomId of await adapter.reapDeadNodes()) {
+      await broadcastToRoom(roomId, { type: 'presence', users: await adapter.getUsers(roomId) })
+    }
+  }
+
+  async function authorizeRoom(conn: ClientConnection, roomId: string): Promise<RoomRole> {
+    if (conn.botRole) return conn.botRole
+    const role = auth?.authorizeRoom
+      ? await auth.authorizeRoom(conn.userId, roomId)
+      : DEFAULT_ROLE
+    if (!role) {
+      throw new CollabError('ROOM_ACCESS_DENIED', `Access to room ${roomId} denied.`)
+    }
+    return role
+  }
+
+  async function enterRoom(conn: ClientConnection, roomId: string, role: RoomRole, metadata = conn.metadata): Promise<void> {
+    // The first user into an empty room brings its persisted state back
+    if (snapshots && (await adapter.getUsers(roomId)).length === 0) {
+      await snapshots.restore(roomId)
+    }
+
+    conn.rooms.set(roomId, role)
+    conn.session.rooms[roomId] = role
+    await adapter.saveSession(conn.session)
+    await adapter.joinRoom(roomId, { sessionId: conn.session.id, userId: conn.userId, role, metadata, device: conn.device })
+    await subscribeToRoom(roomId)
+    const users = await adapter.getUsers(roomId)
+    metrics.roomSize.observe(users.length)
+    // Read after subscribing, so the joining client can resume from here even if no event reaches it
+    const seq = historyEnabled ? await adapter.getLastSeq(roomId) : undefined
+    await broadcastToRoom(roomId, { type: 'presence', users, seq })
+  }
+
+  async function leaveRoom(conn: ClientConnection, roomId: string, reason: LeaveReason): Promise<void> {
+    conn.rooms.delete(roomId)
+    conn.presence.delete(roomId)
+    delete conn.session.rooms[roomId]
+    await adapter.saveSession(conn.session)
+    await unsubscribeFromRoom(roomId)
+    await removeUser(roomId, conn.userId, reason, conn.session.id)
+  }
+
+  // Removes one session, or without a sessionId all of them; the user leaves with their last session
+  async function removeUser(roomId: string, userId: string, reason: LeaveReason, sessionId?: string): Promise<void> {
+    const { left, sessionIds } = await adapter.leaveRoom(roomId, userId, sessionId)
+    if (reason === 'kicked') {
+      for (const id of sessionIds) await forgetRoom(id, roomId)
+    }
+    if (left) {
+      await notifyHooks(hooks.leave, { userId, roomId, reason }, logger)
+    }
+    const users = await adapter.getUsers(roomId)
+    await broadcastToRoom(roomId, { type: 'presence', users })
+    if (snapshots && users.length === 0) {
+      await snapshots.flush(roomId)
+    }
+  }
+
+  // Keeps a session that is waiting to be resumed from rejoining a room it was kicked from.
+  // Live sessions drop the room when the kick reaches their connection.
+  async function forgetRoom(sessionId: string, roomId: string): Promise<void> {
+    const session = await adapter.getSession(sessionId)
+    if (!session?.resumableUntil || !Object.hasOwn(session.rooms, roomId)) return
+    const ttl = session.resumableUntil - Date.now()
+    if (ttl <= 0) return
+    delete session.rooms[roomId]
+    await adapter.saveSession(session, ttl)
+  }
+
+  // Warns the client refreshWindow ms before its credentials expire, and closes the connection once they have
+  function scheduleExpiry(conn: ClientConnection): void {
+    clearTimeout(conn.expiryTimer)
+    conn.expiryTimer = undefined
+    if (conn.expiresAt === undefined) return
+
+    const remaining = conn.expiresAt - Date.now()
+    if (remaining <= 0) {
+      send(conn.ws, { type: 'error', code: 'TOKEN_EXPIRED', error: 'Credentials have expired.' })
+      conn.ws.close(CloseCode.TOKEN_EXPIRED, 'TOKEN_EXPIRED')
+      return
+    }
+    if (remaining <= refreshWindow && !conn.expiryWarned) {
+      conn.expiryWarned = true
+      send(conn.ws, { type: 'auth-expiring', expiresAt: conn.expiresAt })
+    }
+    const delay = remaining > refreshWindow ? remaining - refreshWindow : remaining
+    conn.expiryTimer = setTimeout(() => scheduleExpiry(conn), Math.min(delay, MAX_TIMER_DELAY))
+  }
+
+  // Without this subscription evictions, kicks and system broadcasts would silently miss this
+  // node, so a failed attempt is retried with backoff until it succeeds or the server closes
+  function subscribeControl(attempt = 0): void {
+    adapter.subscribeControl(handleControl).catch(error => {
+      logger.error('Failed to subscribe to control messages', { attempt, error })
+      if (draining) return
+      controlRetryTimer = setTimeout(() => subscribeControl(attempt + 1), Math.min(1000 * 2 ** attempt, 30000))
+    })
+  }
+
+  // Control messages reach every node, since a user's connections may be spread across them
+  function handleControl(message: ControlMessage): void {
+    switch (message.type) {
+      case 'evict':
+        connections.forEach(conn => {
+          if (conn.userId !== message.userId) return
+          send(conn.ws, { type: 'error', code: 'SESSION_REVOKED', error: 'Session has been revoked.' })
+          conn.ws.close(CloseCode.SESSION_REVOKED, 'SESSION_REVOKED')
+        })
+        break
+      case 'kick':
+        connections.forEach(conn => {
+          if (conn.userId !== message.userId) return
+          send(conn.ws, { type: 'kicked', reason: message.reason })
+          conn.ws.close(CloseCode.KICKED, 'KICKED')
+        })
+        break
+      case 'system': {
+        const encoded = new Map<Codec, string | Uint8Array>()
+        connections.forEach(conn => send(conn.ws, { type: 'system', event: message.event, data: message.data }, encoded))
+        break
+      }
+    }
+  }
+
+  // Keeps a disconnected user in presence as away until the grace period runs out
+  async function suspendSession(conn: ClientConnection): Promise<void> {
+    const { session } = conn
+    // A newer epoch means the session was resumed since, and it is no longer ours to suspend
+    const current = await adapter.getSession(session.id)
+    if (current && current.epoch !== session.epoch) return
+    session.resumableUntil = Date.now() + reconnectGracePeriod
+    await adapter.saveSession(session, reconnectGracePeriod)
+    for (const roomId of conn.rooms.keys()) {
+      await adapter.updateMember(roomId, session.id, { status: 'away' })
+      await unsubscribeFromRoom(roomId)
+      await broadcastToRoom(roomId, { type: 'presence', users: await adapter.getUsers(roomId) })
+    }
+
+    const timer = setTimeout(() => {
+      graceTimers.delete(timer)
+      expireSession(session).catch(error => logger.error('Failed to expire session', { sessionId: session.id, error }))
+    }, reconnectGracePeriod)
+    graceTimers.set(timer, session)
+  }
+
+  // While shutting down, nobody would be left here to expire an away user, so users leave
+  // presence at once; the session stays in the adapter for the client to resume on another node
+  async function handOffSession(conn: ClientConnection): Promise<void> {
+    conn.session.resumableUntil = Date.now() + reconnectGracePeriod
+    await adapter.saveSession(conn.session, reconnectGracePeriod)
+    for (const roomId of conn.rooms.keys()) {
+      await unsubscribeFromRoom(roomId)
+      await removeUser(roomId, conn.userId, 'disconnect', conn.session.id)
+    }
+  }
+
+  async function expireSession(session: Session, { keepSession = false } = {}): Promise<void> {
+    // A newer epoch means the session was resumed, possibly on another node
+    const current = await adapter.getSession(session.id)
+    if (current && current.epoch !== session.epoch) return
+
+    if (!keepSession) await adapter.deleteSession(session.id)
+    for (const roomId of Object.keys(session.rooms)) {
+      await removeUser(roomId, session.userId, 'expired', session.id)
+    }
+  }
+
+  // Sends custom events the client missed, including ones from the user's other tabs; only
+  // the session's own messages are skipped, since they were never echoed to it
+  async function replayHistory(conn: ClientConnection, roomId: string, since: number): Promise<void> {
+    const events = await adapter.getEvents(roomId, since)
+    for (const { seq, event, data, user, sessionId } of events) {
+      const own = sessionId !== undefined ? sessionId === conn.session.id : user.id === conn.userId
+      if (own || conn.ws.readyState !== WebSocket.OPEN) continue
+      send(conn.ws, { type: 'custom', roomId, event, data, user, seq, replayed: true })
+    }
+  }
+
+  // Messages without a roomId target the connection's first joined room
+  function resolveRoom(conn: ClientConnection, roomId?: string): string {
+    const resolved = roomId ?? conn.rooms.keys().next().value
+    if (resolved === undefined || !conn.rooms.has(resolved)) {
+      throw new CollabError('NOT_IN_ROOM', roomId ? `Not a member of room ${roomId}.` : 'Join a room first.')
+    }
+    return resolved
+  }
+
+  // Falls back to the connection itself if the adapter has no record of the user yet
+  function describeUser(conn: ClientConnection, roomId: string, users: User[]): User {
+    return users.find(u => u.id === conn.userId)
+      ?? { id: conn.userId, roomId, cursor: null, typing: false, role: conn.rooms.get(roomId), metadata: conn.metadata }
+  }
+
+  function assertPermission(conn: ClientConnection, roomId: string, action: RoomAction): void {
+    const role = conn.rooms.get(roomId)!
+    if (!ROLE_PERMISSIONS[role].has(action)) {
+      throw new CollabError('FORBIDDEN', `Role ${role} cannot ${action} in room ${roomId}.`)
+    }
+  }
+
+  function hookContext(conn: ClientConnection, roomId: string): HookContext {
+    return { userId: conn.userId, sessionId: conn.session.id, roomId, role: conn.rooms.get(roomId)!, metadata: conn.metadata }
+  }
 
   async function subscribeToRoom(roomId: string): Promise<void> {
     if (roomSubscriptions.has(roomId)) return
 
     const callback = async (message: ServerMessage) => {
-      const { _excludeUserId, ...payload } = message
+      const { _excludeUserId, _excludeSessionId, _targetUserId, _sentAt, ...payload } = message
+      if (_sentAt !== undefined) metrics.pubsubLag.observe(Math.max(0, Date.now() - _sentAt) / 1000)
+      // Encode once per codec rather than once per recipient
+      const encoded = new Map<Codec, string | Uint8Array>()
       const roomConnections = Array.from(connections.values())
-        .filter(conn => conn.roomId === roomId)
+        .filter(conn => conn.rooms.has(roomId))
+
+      // A kick without a user closes the room for everyone
+      if (payload.type === 'kicked') {
+        for (const conn of roomConnections) {
+          if (payload.user && conn.userId !== payload.user.id) continue
+          conn.rooms.delete(roomId)
+          conn.presence.delete(roomId)
+          delete conn.session.rooms[roomId]
+          await adapter.saveSession(conn.session)
+          send(conn.ws, payload, encoded)
+        }
+        await unsubscribeFromRoom(roomId)
+        return
+      }
       
       for (const conn of roomConnections) {
         if (_excludeUserId !== undefined && conn.userId === _excludeUserId) continue
-        if (conn.ws.readyState === WebSocket.OPEN) {
-          conn.ws.send(JSON.stringify(payload))
+        if (_excludeSessionId !== undefined && conn.session.id === _excludeSessionId) continue
+        if (_targetUserId !== undefined && conn.userId !== _targetUserId) continue
+        // Batched updates carry several users, so each recipient's own changes are dropped here
+        if (payload.patches?.some(patch => patch.id === conn.userId)) {
+          const patches = payload.patches.filter(patch => patch.id !== conn.userId)
+          if (patches.length > 0) send(conn.ws, { ...payload, patches })
+          continue
         }
+        send(conn.ws, payload, encoded)
       }
     }
 
     roomSubscriptions.set(roomId, callback)
+    metrics.rooms.set(roomSubscriptions.size)
     await adapter.subscribe(roomId, callback)
   }
 
   async function unsubscribeFromRoom(roomId: string): Promise<void> {
+    // Other local connections may still be in the room
+    for (const conn of connections.values()) {
+      if (conn.rooms.has(roomId)) return
+    }
+
     const callback = roomSubscriptions.get(roomId)
     if (callback) {
       await adapter.unsubscribe(roomId, callback)
       roomSubscriptions.delete(roomId)
+      metrics.rooms.set(roomSubscriptions.size)
     }
   }
 
-  async function broadcastToRoom(roomId: string, message: ServerMessage, excludeUserId?: string): Promise<void> {
-    const payload: ServerMessage = excludeUserId ? { ...message, _excludeUserId: excludeUserId } : message
-    await adapter.broadcast(roomId, payload)
+  // Encodes with the codec the socket negotiated; plain JSON until it has one
+  function send(ws: WebSocket, message: ServerMessage, encoded?: Map<Codec, string | Uint8Array>): void {
+    if (ws.readyState !== WebSocket.OPEN) return
+    const codec = socketCodecs.get(ws) ?? jsonCodec
+    let data = encoded?.get(codec)
+    if (data === undefined) {
+      data = codec.encode(message)
+      encoded?.set(codec, data)
+    }
+    ws.send(data)
+    metrics.messagesSent.inc({ type: message.type })
+    if (message.code) metrics.errors.inc({ code: message.code })
   }
 
-  console.log(`  Collab server running on ws://localhost:${port}`)
-  if (adapterConfig?.type === 'redis') {
-    console.log(`   Using Redis adapter for scaling`)
+  async function broadcastToRoom(roomId: string, message: ServerMessage): Promise<void> {
+    await adapter.broadcast(roomId, { ...message, roomId, _sentAt: Date.now() })
   }
 
-  return {
-    close: async () => {
-      wss.close()
-      if ('disconnect' in adapter && typeof adapter.disconnect === 'function') {
-        await adapter.disconnect()
+  // Patches carry each changed user's merged presence, since another of their tabs may still be typing.
+  // Only the fields that changed go out, so a stream of cursor moves doesn't resend presence state.
+  async function publishPresence(roomId: string, batch: MemberPatch[]): Promise<void> {
+    const changed = new Map<string, Set<keyof UserPatch>>()
+    for (const patch of batch) {
+      const fields = changed.get(patch.userId) ?? new Set()
+      for (const field of PATCH_FIELDS) {
+        if (patch[field] !== undefined) fields.add(field)
+      }
+      changed.set(patch.userId, fields)
+    }
+    const patches = (await adapter.getUsers(roomId))
+      .filter(user => changed.has(user.id))
+      .map(user => {
+        const patch: UserPatch = { id: user.id }
+        for (const field of changed.get(user.id)!) {
+          Object.assign(patch, { [field]: user[field] })
+        }
+        return patch
+      })
+    if (patches.length > 0) {
+      await broadcastToRoom(roomId, { type: 'update', patches })
+    }
+  }
+
+  const adapterType = adapterConfig?.type ?? 'memory'
+  if (server) {
+    logger.info('Collab server attached to existing HTTP server', { path, adapter: adapterType })
+  } else if (!noServer) {
+    logger.info('Collab server running', { url: `ws://localhost:${port}${path ?? ''}`, adapter: adapterType })
+  }
+
+  async function serveMetrics(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    let status = 200
+    let body: string
+    try {
+      if (metricsConfig?.authorize && !(await metricsConfig.authorize(request))) {
+        status = 403
+        body = STATUS_CODES[403]!
+      } else {
+        body = metrics.render()
+      }
+    } catch (error) {
+      logger.error('Metrics request failed', { error })
+      status = 500
+      body = STATUS_CODES[500]!
+    }
+    response.writeHead(status, {
+      'Content-Type': status === 200 ? 'text/plain; version=0.0.4; charset=utf-8' : 'text/plain',
+      'Content-Length': Buffer.byteLength(body)
+    })
+    response.end(body)
+  }
+
+  // Drains the node for a rolling deploy: refuses new connections, sends every client elsewhere
+  // with a staggered reconnect hint, hands sessions off and resolves once state is flushed
+  function close(options: CloseOptions = {}): Promise<void> {
+    closing ??= shutdown(options)
+    return closing
+  }
+
+  async function shutdown({ reconnectDelay = 1000, jitter = 5000, timeout = 5000 }: CloseOptions): Promise<void> {
+    draining = true
+    // Bots would only keep reconnecting to this node, so they leave for good
+    bots.forEach(bot => bot.disconnect())
+    clearInterval(heartbeatTimer)
+    clearTimeout(controlRetryTimer)
+    presence.close()
+    connections.forEach(conn => clearTimeout(conn.expiryTimer))
+    const httpClosed = httpServer && !server
+      ? new Promise<void>(resolve => httpServer.close(() => resolve()))
+      : Promise.resolve()
+
+    const socketsClosed = Array.from(wss.clients, ws => new Promise<void>(resolve => {
+      ws.once('close', () => resolve())
+      send(ws, { type: 'going-away', retryAfter: reconnectDelay + Math.floor(Math.random() * jitter) })
+      ws.close(1001, 'GOING_AWAY')
+    }))
+    const terminateTimer = setTimeout(() => wss.clients.forEach(ws => ws.terminate()), timeout)
+    await Promise.all(socketsClosed)
+    clearTimeout(terminateTimer)
+    await Promise.all(closeTasks)
+
+    // Sessions suspended here stay resumable elsewhere until their grace period ends
+    for (const [timer, session] of graceTimers) {
+      clearTimeout(timer)
+      await expireSession(session, { keepSession: true })
+    }
+    graceTimers.clear()
+
+    await snapshots?.flush()
+    await new Promise<void>(resolve => wss.close(() => resolve()))
+    httpServer?.off('upgrade', onServerUpgrade)
+    await httpClosed
+    if ('disconnect' in adapter && typeof adapter.disconnect === 'function') {
+      await adapter.disconnect()
+    }
+  }
+
+  // Bots connect over the network like any client, so they use the same path and message
+  // pipeline; only the upgrade hooks are skipped, since those check user credentials
+  function createBot({ userId, role = DEFAULT_ROLE, url, metadata, ...clientConfig }: BotOptions): CollabClient {
+    const secret = crypto.randomUUID()
+    botIdentities.set(secret, { userId, role, metadata })
+    const bot = createCollabClient({
+      idleTimeout: 0,
+      logger,
+      ...clientConfig,
+      url: url ?? localUrl(),
+      headers: { ...clientConfig.headers, [BOT_HEADER]: secret },
+      token: secret,
+      device: 'bot',
+      WebSocket
+    })
+    const handle: CollabClient = {
+      ...bot,
+      disconnect: () => {
+        bots.delete(handle)
+        botIdentities.delete(secret)
+        bot.disconnect()
       }
     }
+    bots.add(handle)
+    return handle
+  }
+
+  // Before the HTTP server is listening, a server we own will be on the configured port
+  function localUrl(): string {
+    const address = httpServer?.address()
+    const listeningPort = typeof address === 'object' && address ? address.port : (server || noServer ? undefined : port)
+    if (listeningPort === undefined) {
+      throw new Error('Pass a url to createBot until the server is listening.')
+    }
+    return `ws://127.0.0.1:${listeningPort}${path ?? ''}`
+  }
+
+  async function setRoomMetadata(roomId: string, metadata: RoomMetadata): Promise<void> {
+    await adapter.setRoomMetadata(roomId, metadata)
+    await broadcastToRoom(roomId, { type: 'room-metadata', data: metadata })
+    snapshots?.schedule(roomId)
+  }
+
+  return {
+    handleUpgrade,
+    getRoomMetadata: (roomId: string) => adapter.getRoomMetadata(roomId),
+    setRoomMetadata,
+    handle: (event: string, handler: RequestHandler) => {
+      requestHandlers.set(event, handler)
+    },
+    defineEvent: (event, eventSchema) => {
+      eventSchemas.set(event, eventSchema)
+    },
+    createBot,
+    definePresence: (schema) => {
+      presenceSchema = schema
+    },
+    use: (fn) => {
+      middleware.push(fn)
+    },
+    onJoin: (hook) => {
+      hooks.join.push(hook)
+    },
+    onLeave: (hook) => {
+      hooks.leave.push(hook)
+    },
+    onCursor: (hook) => {
+      hooks.cursor.push(hook)
+    },
+    onTyping: (hook) => {
+      hooks.typing.push(hook)
+    },
+    onCustom: (hook) => {
+      hooks.custom.push(hook)
+    },
+    onDisconnect: (hook) => {
+      hooks.disconnect.push(hook)
+    },
+    evict: async (userId: string) => {
+      await adapter.publishControl({ type: 'evict', userId })
+    },
+    listRooms,
+    getUsers,
+    kick,
+    ban,
+    unban,
+    closeRoom,
+    broadcast: systemBroadcast,
+    handleAdminRequest,
+    getMetrics: () => metrics.render(),
+    close
+  }
+}
+
+function rejectUpgrade(socket: Duplex, status: number, message = STATUS_CODES[status] ?? ''): void {
+  if (!socket.destroyed && socket.writable) {
+    socket.write(
+      `HTTP/1.1 ${status} ${STATUS_CODES[status] ?? ''}\r\n` +
+      'Connection: close\r\n' +
+      'Content-Type: text/plain\r\n' +
+      `Content-Length: ${Buffer.byteLength(message)}\r\n` +
+      '\r\n' +
+      message
+    )
   }
+  socket.destroy()
 }
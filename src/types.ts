@@ -1,11 +1,64 @@
-export interface User {
+import type { IncomingMessage, ServerResponse, Server as HttpServer } from 'http'
+import type { Duplex } from 'stream'
+import type { CollabDoc } from './crdt.js'
+import type { MessageSchemas, InferMessages } from './messages.js'
+import type { Schema, ValidationIssue } from './schema.js'
+
+// Application-defined presence, e.g. a selection range or viewport; applications type their own shape
+export type PresenceState = Record<string, JsonValue>
+
+// Keys set to null are removed
+export type PresencePatch<P extends PresenceState = PresenceState> = { [K in keyof P]?: P[K] | null }
+
+// Whether the user is interacting, hasn't for a while, or has the tab hidden
+export type Activity = 'active' | 'idle' | 'away'
+
+// A user's presence in a room, merged from all of their connections (tabs and devices) to it
+export interface User<P extends PresenceState = PresenceState> {
   id: string
   roomId: string
+  // From the connection that was active most recently
   cursor: { x: number; y: number } | null
+  // True while any connection is typing
   typing: boolean
+  role?: RoomRole
+  // Online while any connection is, away once all of them are waiting to be resumed
+  status?: 'online' | 'away'
   metadata?: UserMetadata
+  sessionCount?: number
+  devices?: string[]
+  // From the connection that was active most recently
+  presence?: Partial<P>
+  // The most active of the user's connections
+  activity?: Activity
 }
 
+// Changed presence fields of one user, as sent in batched updates
+export type UserPatch<P extends PresenceState = PresenceState> = { id: string } & Partial<Pick<User<P>, 'cursor' | 'typing' | 'presence' | 'activity'>>
+
+// One connection's presence in a room, keyed by its session id
+export interface RoomMember {
+  sessionId: string
+  userId: string
+  role?: RoomRole
+  metadata?: UserMetadata
+  device?: string
+  cursor: { x: number; y: number } | null
+  typing: boolean
+  status: 'online' | 'away'
+  presence?: PresenceState
+  activity?: Activity
+  // Last cursor move, typing or presence change, in ms since the epoch
+  lastActive: number
+}
+
+export type MemberUpdate = Partial<Pick<RoomMember, 'cursor' | 'typing' | 'status' | 'presence' | 'activity' | 'lastActive'>>
+
+// Changed presence fields of one connection, as written in batches
+export type MemberPatch = Pick<RoomMember, 'sessionId' | 'userId'> & MemberUpdate
+
+export type RoomRole = 'viewer' | 'editor' | 'admin'
+
 export interface UserMetadata {
   name?: string
   avatar?: string
@@ -15,20 +68,96 @@ export interface UserMetadata {
 
 export interface ServerConfig {
   port?: number
+  server?: HttpServer
+  noServer?: boolean
+  path?: string
+  onUpgrade?: (request: IncomingMessage) => Promise<UpgradeRejection | void> | UpgradeRejection | void
   auth?: AuthConfig
   adapter?: AdapterConfig
+  persistence?: PersistenceConfig
+  history?: HistoryConfig | boolean
+  reconnectGracePeriod?: number
+  heartbeatInterval?: number
+  heartbeatTimeout?: number
+  codecs?: CodecName[]
+  tickRate?: number | ((roomId: string) => number)
+  limits?: LimitsConfig
+  admin?: AdminConfig
+  metrics?: MetricsConfig | boolean
+  logger?: Logger
+  traceAdapter?: AdapterTraceHook
+}
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+// Structured fields logged with a message, such as roomId, userId or error
+export type LogContext = Record<string, unknown>
+
+export interface Logger {
+  debug(message: string, context?: LogContext): void
+  info(message: string, context?: LogContext): void
+  warn(message: string, context?: LogContext): void
+  error(message: string, context?: LogContext): void
+}
+
+export interface MetricsConfig {
+  // Where the HTTP server the collab server creates serves Prometheus metrics (default: '/metrics')
+  path?: string
+  // Metrics are public unless this rejects the request
+  authorize?: (request: IncomingMessage) => Promise<boolean> | boolean
+}
+
+// Called as an adapter call starts; the function it returns, if any, is called once the call settles
+export type AdapterTraceHook = (method: keyof Adapter, args: unknown[]) => ((error?: unknown) => void) | void
+
+export interface LimitsConfig {
+  maxMetadataBytes?: number
+  maxMetadataKeys?: number
+  maxPresenceBytes?: number
+  maxMessageBytes?: number
+  maxUsersPerRoom?: number
+  rateLimits?: RateLimitConfig | false
+}
+
+// Token bucket refilled at `rate` messages per second that holds up to `burst` messages
+export interface RateLimitRule {
+  rate: number
+  burst?: number
+  // A 'user' bucket is shared by all of a user's connections, across nodes with the Redis adapter
+  per?: 'connection' | 'user'
+}
+
+export interface RateLimitConfig {
+  rules?: Partial<Record<MessageType, RateLimitRule | false>>
+  muteAfter?: number
+  muteDuration?: number
+  disconnectAfter?: number
+}
+
+export interface UpgradeRejection {
+  status: number
+  message?: string
 }
 
 export interface AuthConfig {
-  verifyToken: (token: string) => Promise<AuthResult> | AuthResult
+  verifyToken: (token: string, request: IncomingMessage) => Promise<AuthResult> | AuthResult
+  verifyRequest?: (request: IncomingMessage) => Promise<AuthResult | null> | AuthResult | null
+  authorizeRoom?: (userId: string, roomId: string) => Promise<RoomRole | null> | RoomRole | null
+  // How long before credentials expire clients are asked to reauthenticate (default: 60000)
+  refreshWindow?: number
 }
 
 export interface AuthResult {
   userId: string
   metadata?: UserMetadata
+  // When the credentials stop being valid, in ms since the epoch; the connection is closed then
+  expiresAt?: number
   error?: string
 }
 
+// Called on every (re)connect and reauth, so short-lived tokens can be refreshed
+export type TokenProvider = () => Promise<string> | string
+
 export interface AdapterConfig {
   type: 'memory' | 'redis'
   redis?: RedisConfig
@@ -41,6 +170,17 @@ export interface RedisConfig {
   password?: string
 }
 
+export interface HistoryConfig {
+  maxSize?: number
+  maxAge?: number
+}
+
+export interface PersistenceConfig {
+  adapter: PersistenceAdapter
+  debounce?: number
+  maxWait?: number
+}
+
 export interface ReconnectConfig {
   enabled?: boolean
   maxRetries?: number
@@ -49,61 +189,434 @@ export interface ReconnectConfig {
   backoffFactor?: number
 }
 
+// The parts of the WebSocket API the client uses, as provided by browsers, Node.js 22+ and the `ws` package.
+// Every implementation has its own event classes, so handler events are typed `never`: any handler fits,
+// and the client states the fields it reads where it assigns one.
+export interface WebSocketLike {
+  readonly readyState: number
+  readonly protocol: string
+  binaryType: string
+  onopen: ((event: never) => void) | null
+  onmessage: ((event: never) => void) | null
+  onerror: ((event: never) => void) | null
+  onclose: ((event: never) => void) | null
+  send(data: string | Uint8Array): void
+  close(code?: number, reason?: string): void
+}
+
+// Browsers take no options; `ws` sends the headers with the upgrade request
+export type WebSocketConstructor = new (url: string, protocols?: string | string[], options?: { headers?: Record<string, string> }) => WebSocketLike
+
 export interface ClientConfig {
   url: string
-  token?: string
+  token?: string | TokenProvider
   roomId?: string
   metadata?: UserMetadata
   reconnect?: ReconnectConfig | boolean
   throttleCursor?: number 
   heartbeatInterval?: number 
+  history?: boolean
+  codec?: CodecName
+  // Shown to others in the user's `devices`, e.g. 'Laptop' (default: derived from the user agent)
+  device?: string
+  // Report the user as idle after this many ms without input, or away while the tab is hidden (default: 60000, 0 to disable)
+  idleTimeout?: number
+  // WebSocket implementation, e.g. `WebSocket` from the `ws` package (default: the global WebSocket)
+  WebSocket?: WebSocketConstructor
+  // Sent with the upgrade request, by implementations that support it such as `ws`
+  headers?: Record<string, string>
+  // Subprotocols offered after the codec's own, e.g. for a proxy that routes on them
+  protocols?: string[]
+  // Hold messages sent while disconnected and send them after the next join (default: enabled, false to drop them)
+  offlineQueue?: OfflineQueueConfig | false
+  logger?: Logger
 }
 
-export type MessageType = 'cursor' | 'typing' | 'join' | 'leave' | 'presence' | 'update' | 'custom' | 'ping' | 'pong'
+// Client messages that can wait in the offline queue
+export type QueueableType = 'cursor' | 'typing' | 'custom' | 'kick'
 
-export interface ClientMessage {
-  type: MessageType
-  roomId?: string
-  position?: { x: number; y: number }
-  isTyping?: boolean
-  token?: string
-  metadata?: UserMetadata
-  event?: string 
-  data?: unknown 
+// 'latest' keeps only the newest message per room, 'buffer' keeps all of them in order, 'drop' keeps none
+export type QueuePolicy = 'latest' | 'buffer' | 'drop'
+
+export interface OfflineQueueConfig {
+  // Most messages held; the oldest is dropped to make room (default: 100)
+  maxSize?: number
+  // Buffered messages older than this many ms are dropped instead of sent (default: no limit)
+  ttl?: number
+  // Per message type (default: 'latest' for cursor and typing, 'buffer' for custom and kick)
+  policies?: Partial<Record<QueueableType, QueuePolicy>>
 }
 
-export interface ServerMessage {
-  type: 'presence' | 'update' | 'error' | 'custom' | 'ping' | 'pong' | 'connected' | 'disconnected'
-  users?: User[]
-  user?: User
+// Why a message was never sent, as the `reason` of 'dropped' events
+export type DropReason = 'offline' | 'overflow' | 'expired' | 'left' | 'disconnected'
+
+export interface BotOptions extends Omit<ClientConfig, 'url' | 'token' | 'device' | 'WebSocket'> {
+  userId: string
+  // Role in every room the bot joins; authorizeRoom isn't asked (default: 'editor')
+  role?: RoomRole
+  // Where the bot connects (default: this server on 127.0.0.1); it must reach the node that created it
+  url?: string
+}
+
+// Every message a client can send, inferred from the schemas the server validates against
+export type ClientMessage = InferMessages<MessageSchemas>
+
+export type MessageType = ClientMessage['type']
+
+export type ClientMessageOf<T extends MessageType> = Extract<ClientMessage, { type: T }>
+
+// Stable across releases, so applications can branch on them instead of on messages
+export type ErrorCode =
+  // Authentication; all but NOT_AUTHENTICATED also close the socket
+  | 'AUTH_REQUIRED' | 'INVALID_TOKEN' | 'TOKEN_EXPIRED' | 'SESSION_REVOKED' | 'BANNED' | 'NOT_AUTHENTICATED'
+  // Permissions and room membership
+  | 'FORBIDDEN' | 'ROOM_ACCESS_DENIED' | 'ROOM_FULL' | 'NOT_IN_ROOM' | 'USER_NOT_FOUND'
+  // Malformed or rejected input
+  | 'INVALID_MESSAGE' | 'UNKNOWN_MESSAGE_TYPE' | 'INVALID_PAYLOAD' | 'RATE_LIMITED'
+  // Requests
+  | 'NO_HANDLER' | 'TIMEOUT'
+  // Server failures, with details logged on the server only
+  | 'INTERNAL_ERROR'
+  // Raised by the client itself
+  | 'NOT_CONNECTED' | 'CONNECTION_ERROR' | 'RECONNECT_FAILED' | 'TOKEN_UNAVAILABLE'
+
+export interface ServerMessage<P extends PresenceState = PresenceState> {
+  type: 'presence' | 'update' | 'cursor' | 'error' | 'custom' | 'kicked' | 'doc-sync' | 'doc-update' | 'room-metadata' | 'session' | 'response' | 'auth-expiring' | 'system' | 'going-away' | 'ping' | 'pong' | 'connected' | 'disconnected' | 'state' | 'queue' | 'dropped'
+  roomId?: string
+  sessionId?: string
+  userId?: string
+  resumed?: boolean
+  users?: User<P>[]
+  user?: User<P>
+  patches?: UserPatch<P>[]
+  position?: { x: number; y: number }
   error?: string
+  code?: ErrorCode
   event?: string
   data?: unknown
+  update?: DocUpdate
+  // On custom events their place in the room's history; on 'presence' the room's latest seq
+  seq?: number
+  replayed?: boolean
+  requestId?: string
+  direct?: boolean
+  issues?: ValidationIssue[]
+  retryAfter?: number
+  expiresAt?: number
+  reason?: string
+  // The client's new connection state, on 'state' events
+  state?: ConnectionState
+  // Messages waiting in the offline queue, on 'queue' events
+  queueSize?: number
+  // The message that was given up on, on 'dropped' events
+  dropped?: ClientMessage
+  // Type of the client message an error or response answers
+  requestType?: string
   _excludeUserId?: string
+  _excludeSessionId?: string
+  _targetUserId?: string
+  // When a room broadcast was published, for measuring pub/sub lag
+  _sentAt?: number
+}
+
+export type CodecName = 'json' | 'msgpack'
+
+// Wire format for client and server messages, negotiated through the WebSocket subprotocol
+export interface Codec {
+  readonly name: CodecName
+  readonly protocol: string
+  encode(message: unknown): string | Uint8Array
+  decode(data: string | Uint8Array): unknown
+}
+
+// Payload of a client's 'error' event, whether sent by the server or raised by the client
+export interface CollabErrorEvent extends ServerMessage {
+  type: 'error'
+  code: ErrorCode
+  error: string
+  // The client has stopped reconnecting and won't recover on its own
+  fatal: boolean
+}
+
+export type JsonValue = string | number | boolean | null | JsonValue[] | { [key: string]: JsonValue }
+
+export type DocOp =
+  | { op: 'map-set'; root: string; id: string; key: string; value: JsonValue }
+  | { op: 'map-delete'; root: string; id: string; key: string }
+  | { op: 'list-insert'; root: string; id: string; after: string | null; values: JsonValue[] }
+  | { op: 'list-delete'; root: string; targets: string[] }
+  | { op: 'text-insert'; root: string; id: string; after: string | null; text: string }
+  | { op: 'text-delete'; root: string; targets: string[] }
+
+export type DocUpdate = DocOp[]
+
+export interface DocChangeEvent {
+  origin: 'local' | 'remote'
+  update: DocUpdate
+}
+
+export type ClientEventType = 'presence' | 'update' | 'error' | 'connected' | 'disconnected' | 'state' | 'queue' | 'dropped' | 'custom' | 'kicked' | 'room-metadata' | 'session' | 'auth-expiring' | 'system' | 'going-away'
+
+export type RoomEventType = 'presence' | 'update' | 'custom' | 'kicked' | 'room-metadata' | 'system'
+
+export interface RequestOptions {
+  timeout?: number
 }
 
-export interface CollabClient {
-  on(type: 'presence' | 'update' | 'error' | 'connected' | 'disconnected' | 'custom', callback: (data: ServerMessage) => void): void
+// With `ack`, the returned promise settles once the server has accepted and broadcast the event
+export interface BroadcastOptions extends RequestOptions {
+  ack: true
+}
+
+export interface RequestContext {
+  userId: string
+  roomId: string
+  role: RoomRole
+  metadata?: UserMetadata
+}
+
+// Throw a CollabError to reply with an error code
+export type RequestHandler = (data: unknown, context: RequestContext) => Promise<unknown> | unknown
+
+export interface HookContext {
+  userId: string
+  sessionId: string
+  roomId: string
+  role: RoomRole
+  metadata?: UserMetadata
+}
+
+// Return a replacement to transform the value, null to drop it, or throw a CollabError to reject it
+export type TransformHook<T, C = HookContext> = (value: T, context: C) => Promise<T | null | void> | T | null | void
+
+export interface JoinRequest {
+  metadata?: UserMetadata
+}
+
+export interface CustomMessage {
+  event: string
+  data?: unknown
+  targetUserId?: string
+}
+
+export type LeaveReason = 'leave' | 'disconnect' | 'kicked' | 'expired'
+
+export interface LeaveContext {
+  userId: string
+  roomId: string
+  reason: LeaveReason
+}
+
+export interface DisconnectContext {
+  userId: string
+  sessionId: string
+  rooms: string[]
+  code: number
+}
+
+// userId and sessionId are unset until the connection's first join has authenticated
+export interface MiddlewareContext {
+  message: ClientMessage
+  userId?: string
+  sessionId?: string
+  request: IncomingMessage
+}
+
+export type Middleware = (context: MiddlewareContext, next: () => Promise<void>) => Promise<void> | void
+
+export type ConnectionState = 'connecting' | 'connected' | 'disconnected' | 'reconnecting'
+
+// Removes the listener it was returned for
+export type Unsubscribe = () => void
+
+export interface CollabClient<P extends PresenceState = PresenceState> {
+  on(type: 'error', callback: (error: CollabErrorEvent) => void): Unsubscribe
+  on(type: ClientEventType, callback: (data: ServerMessage<P>) => void): Unsubscribe
+  off(type: 'error', callback: (error: CollabErrorEvent) => void): void
+  off(type: ClientEventType, callback: (data: ServerMessage<P>) => void): void
   cursor(position: { x: number; y: number }): void
   typing(isTyping: boolean): void
+  setPresence(patch: PresencePatch<P>): void
   broadcast(event: string, data?: unknown): void
+  broadcast(event: string, data: unknown, options: BroadcastOptions): Promise<void>
+  request<T = unknown>(event: string, data?: unknown, options?: RequestOptions): Promise<T>
+  reauth(token?: string): Promise<void>
   send(event: string, data?: unknown): void
+  sendTo(userId: string, event: string, data?: unknown): void
+  sendTo(userId: string, event: string, data: unknown, options: BroadcastOptions): Promise<void>
+  kick(userId: string): void
   joinRoom(roomId: string): void
-  leaveRoom(): void
+  leaveRoom(roomId?: string): void
+  room(roomId: string): CollabRoom<P>
+  getRooms(): string[]
+  doc(roomId?: string): CollabDoc
+  // The room's users as last received, with cursor and presence changes applied
+  getUsers(roomId?: string): User<P>[]
+  // The authenticated user id, once the server has confirmed the session
+  getUserId(): string | null
+  // Messages waiting to be sent once the client has rejoined
+  getQueueSize(): number
   disconnect(): void
-  getState(): 'connecting' | 'connected' | 'disconnected' | 'reconnecting'
+  getState(): ConnectionState
+}
+
+// Handle scoped to one of the rooms a client is subscribed to
+export interface CollabRoom<P extends PresenceState = PresenceState> {
+  readonly id: string
+  on(type: RoomEventType, callback: (data: ServerMessage<P>) => void): Unsubscribe
+  cursor(position: { x: number; y: number }): void
+  typing(isTyping: boolean): void
+  setPresence(patch: PresencePatch<P>): void
+  broadcast(event: string, data?: unknown): void
+  broadcast(event: string, data: unknown, options: BroadcastOptions): Promise<void>
+  request<T = unknown>(event: string, data?: unknown, options?: RequestOptions): Promise<T>
+  sendTo(userId: string, event: string, data?: unknown): void
+  sendTo(userId: string, event: string, data: unknown, options: BroadcastOptions): Promise<void>
+  kick(userId: string): void
+  doc(): CollabDoc
+  getUsers(): User<P>[]
+  leave(): void
 }
 
 export interface CollabServer {
-  close(): void
+  handleUpgrade(request: IncomingMessage, socket: Duplex, head: Buffer): Promise<void>
+  getRoomMetadata(roomId: string): Promise<RoomMetadata>
+  setRoomMetadata(roomId: string, metadata: RoomMetadata): Promise<void>
+  handle(event: string, handler: RequestHandler): void
+  defineEvent(event: string, schema: Schema<unknown>): void
+  // A client that joins rooms as `userId` without a token, for posting from the backend
+  createBot(options: BotOptions): CollabClient
+  // Checks each connection's presence once a patch has been applied to it
+  definePresence(schema: Schema<unknown>): void
+  use(middleware: Middleware): void
+  onJoin(hook: TransformHook<JoinRequest>): void
+  onLeave(hook: (context: LeaveContext) => Promise<void> | void): void
+  onCursor(hook: TransformHook<{ x: number; y: number }>): void
+  onTyping(hook: TransformHook<boolean>): void
+  onCustom(hook: TransformHook<CustomMessage>): void
+  onDisconnect(hook: (context: DisconnectContext) => Promise<void> | void): void
+  evict(userId: string): Promise<void>
+  listRooms(): Promise<RoomSummary[]>
+  getUsers(roomId: string): Promise<User[]>
+  kick(userId: string, options?: KickOptions): Promise<void>
+  ban(userId: string, options?: BanOptions): Promise<void>
+  unban(userId: string, options?: { roomId?: string }): Promise<void>
+  closeRoom(roomId: string, reason?: string): Promise<void>
+  broadcast(event: string, data?: unknown, options?: { roomId?: string }): Promise<void>
+  handleAdminRequest(request: IncomingMessage, response: ServerResponse): Promise<boolean>
+  // This node's metrics in the Prometheus text exposition format
+  getMetrics(): string
+  close(options?: CloseOptions): Promise<void>
+}
+
+// Clients are told to reconnect after reconnectDelay plus a random share of jitter, so they don't all arrive at once
+export interface CloseOptions {
+  reconnectDelay?: number
+  jitter?: number
+  // Sockets that haven't closed after this many ms are terminated (default: 5000)
+  timeout?: number
+}
+
+export interface RoomSummary {
+  id: string
+  userCount: number
+}
+
+// Without a roomId, a kick disconnects the user from the server altogether
+export interface KickOptions {
+  roomId?: string
+  reason?: string
+}
+
+// Bans without a duration are permanent
+export interface BanOptions extends KickOptions {
+  duration?: number
+}
+
+export interface AdminConfig {
+  // Requests outside this path are left alone (default: '/admin')
+  path?: string
+  // Decides whether a request may use the admin API, e.g. by checking a bearer token
+  authorize: (request: IncomingMessage) => Promise<boolean> | boolean
 }
 
 export interface Adapter {
-  joinRoom(roomId: string, userId: string, metadata?: UserMetadata): Promise<void>
-  leaveRoom(roomId: string, userId: string): Promise<void>
-  updateUser(roomId: string, userId: string, updates: Partial<User>): Promise<void>
+  // Rejoining with a known session id keeps its cursor and typing state
+  joinRoom(roomId: string, member: Pick<RoomMember, 'sessionId' | 'userId' | 'role' | 'metadata' | 'device'>): Promise<void>
+  // Without a sessionId all of the user's sessions leave; resolves to the sessions removed and
+  // whether the user has none left in the room
+  leaveRoom(roomId: string, userId: string, sessionId?: string): Promise<{ left: boolean; sessionIds: string[] }>
+  updateMember(roomId: string, sessionId: string, updates: MemberUpdate): Promise<void>
+  updateMembers(roomId: string, patches: MemberPatch[]): Promise<void>
+  // One entry per user, merged from their sessions
   getUsers(roomId: string): Promise<User[]>
+  listRooms(): Promise<RoomSummary[]>
+  getDocument(roomId: string): Promise<DocUpdate>
+  applyDocumentUpdate(roomId: string, update: DocUpdate): Promise<void>
+  getRoomMetadata(roomId: string): Promise<RoomMetadata>
+  setRoomMetadata(roomId: string, metadata: RoomMetadata): Promise<void>
+  appendEvent(roomId: string, event: Omit<RoomEvent, 'seq'>): Promise<RoomEvent>
+  getEvents(roomId: string, afterSeq?: number): Promise<RoomEvent[]>
+  // Seq of the room's latest event, even if it has left the log; 0 before the first
+  getLastSeq(roomId: string): Promise<number>
+  restoreEvents(roomId: string, events: RoomEvent[]): Promise<void>
+  // Without a ttl the session lasts while this node is alive, as heartbeat() reports
+  saveSession(session: Session, ttl?: number): Promise<void>
+  getSession(sessionId: string): Promise<Session | null>
+  deleteSession(sessionId: string): Promise<void>
+  // Without a roomId a ban covers the whole server; without a duration it is permanent
+  banUser(userId: string, roomId?: string, duration?: number): Promise<void>
+  unbanUser(userId: string, roomId?: string): Promise<void>
+  isBanned(userId: string, roomId?: string): Promise<boolean>
+  heartbeat(ttl: number): Promise<void>
+  reapDeadNodes(): Promise<string[]>
+  // Resolves to 0 once a token is taken from the bucket, otherwise to the ms until one refills
+  takeToken(key: string, rate: number, burst: number): Promise<number>
   broadcast(roomId: string, message: ServerMessage): Promise<void>
   subscribe(roomId: string, callback: (message: ServerMessage) => void): Promise<void>
   unsubscribe(roomId: string, callback: (message: ServerMessage) => void): Promise<void>
+  publishControl(message: ControlMessage): Promise<void>
+  subscribeControl(callback: (message: ControlMessage) => void): Promise<void>
+}
+
+// Sent between server nodes for actions that concern users rather than rooms
+export type ControlMessage =
+  | { type: 'evict'; userId: string }
+  | { type: 'kick'; userId: string; reason?: string }
+  | { type: 'system'; event: string; data?: unknown }
+
+export type RoomMetadata = Record<string, JsonValue>
+
+// Identity and room membership a client can resume after reconnecting
+export interface Session {
+  id: string
+  userId: string
+  metadata?: UserMetadata
+  rooms: Record<string, RoomRole>
+  epoch: number
+  // Set while the session waits to be resumed: when it stops being resumable, in ms since the epoch
+  resumableUntil?: number
+}
+
+export interface RoomEvent {
+  seq: number
+  event: string
+  data?: unknown
+  user: User
+  // Session that sent the event; missing on events stored by older versions
+  sessionId?: string
+  timestamp: number
+}
+
+export interface RoomSnapshot {
+  document: DocUpdate
+  metadata: RoomMetadata
+  events: RoomEvent[]
+  savedAt: number
+}
+
+// Durable storage for room state that outlives the adapter's live data
+export interface PersistenceAdapter {
+  load(roomId: string): Promise<RoomSnapshot | null>
+  save(roomId: string, snapshot: RoomSnapshot): Promise<void>
 }
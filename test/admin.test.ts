@@ -0,0 +1,54 @@
+import { after, before, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { createServer } from 'http'
+import type { AddressInfo } from 'net'
+import { createAdminHandler } from '../src/admin.js'
+import { createConsoleLogger } from '../src/logger.js'
+import type { User } from '../src/types.js'
+
+describe('admin API', () => {
+  const requestedRooms: string[] = []
+  const handle = createAdminHandler({
+    listRooms: async () => [{ id: 'doc', userCount: 1 }],
+    getUsers: async (roomId: string) => {
+      requestedRooms.push(roomId)
+      return [] as User[]
+    },
+    kick: async () => {},
+    ban: async () => {},
+    unban: async () => {},
+    closeRoom: async () => {},
+    broadcast: async () => {}
+  }, { authorize: request => request.headers.authorization === 'Bearer secret' }, createConsoleLogger('silent'))
+  const server = createServer(async (request, response) => {
+    if (!(await handle(request, response))) response.writeHead(404).end()
+  })
+  let base: string
+
+  before(async () => {
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  after(async () => {
+    await new Promise(resolve => server.close(resolve))
+  })
+
+  const get = (path: string) => fetch(`${base}${path}`, { headers: { authorization: 'Bearer secret' } })
+
+  it('decodes room ids in the path', async () => {
+    const response = await get('/admin/rooms/a%2Fb/users')
+    assert.equal(response.status, 200)
+    assert.deepEqual(requestedRooms, ['a/b'])
+  })
+
+  it('answers malformed escapes with 400', async () => {
+    const response = await get('/admin/rooms/%E0%A4%A/users')
+    assert.equal(response.status, 400)
+    assert.equal((await response.json()).code, 'INVALID_MESSAGE')
+  })
+
+  it('refuses requests the authorize hook rejects', async () => {
+    assert.equal((await fetch(`${base}/admin/rooms`)).status, 403)
+  })
+})
@@ -0,0 +1,54 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { CollabDoc } from '../src/crdt.js'
+import type { DocUpdate } from '../src/types.js'
+
+// Collects the updates a replica makes locally, to deliver them to the others later
+function record(doc: CollabDoc): DocUpdate {
+  const updates: DocUpdate = []
+  doc.subscribe(({ origin, update }) => {
+    if (origin === 'local') updates.push(...update)
+  })
+  return updates
+}
+
+describe('CollabDoc', () => {
+  it('converges after concurrent edits, whatever the delivery order', () => {
+    const alice = new CollabDoc('alice')
+    const bob = new CollabDoc('bob')
+    const fromAlice = record(alice)
+    const fromBob = record(bob)
+
+    alice.getText('body').insert(0, 'Hello')
+    bob.applyUpdate(fromAlice.splice(0))
+    alice.getText('body').insert(5, ' world')
+    bob.getText('body').insert(0, '> ')
+    alice.getMap('meta').set('title', 'Alice')
+    bob.getMap('meta').set('title', 'Bob')
+    bob.getList('tags').push('draft')
+
+    alice.applyUpdate([...fromBob].reverse())
+    bob.applyUpdate(fromAlice)
+
+    assert.deepEqual(alice.toJSON(), bob.toJSON())
+    assert.equal(alice.getText('body').toString(), '> Hello world')
+    assert.deepEqual(alice.getList('tags').toArray(), ['draft'])
+  })
+
+  it('applies updates idempotently and rebuilds from encoded state', () => {
+    const doc = new CollabDoc('a')
+    const updates = record(doc)
+    const list = doc.getList<number>('items')
+    list.push(1, 2, 3)
+    list.delete(1)
+
+    const replica = new CollabDoc('b')
+    replica.applyUpdate(updates)
+    replica.applyUpdate(updates)
+    assert.deepEqual(replica.getList('items').toArray(), [1, 3])
+
+    const restored = new CollabDoc('c')
+    restored.applyUpdate(doc.encodeState())
+    assert.deepEqual(restored.toJSON(), doc.toJSON())
+  })
+})
@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { WebSocket } from 'ws'
+import { createCollabClient, createConsoleLogger } from '../src/index.js'
+import type { ClientConfig, CollabClient, ServerMessage } from '../src/types.js'
+import { delay, startServer, waitFor } from './helpers.js'
+import type { TestServer } from './helpers.js'
+
+describe('direct messages', () => {
+  let server: TestServer
+  let clients: CollabClient[]
+
+  // Resolves once the client has its session, with the custom events it emits from then on
+  async function connect(token: string, config: Partial<ClientConfig> = {}): Promise<{ client: CollabClient; events: ServerMessage[] }> {
+    const client = createCollabClient({ url: server.url, roomId: 'r', token, WebSocket, idleTimeout: 0, logger: createConsoleLogger('error'), ...config })
+    clients.push(client)
+    const events: ServerMessage[] = []
+    client.on('custom', message => events.push(message))
+    await waitFor(() => assert.notEqual(client.getUserId(), null))
+    return { client, events }
+  }
+
+  beforeEach(async () => {
+    clients = []
+    server = await startServer({ history: true, auth: { verifyToken: token => ({ userId: token }) } })
+  })
+
+  afterEach(async () => {
+    clients.forEach(client => client.disconnect())
+    await server.close()
+  })
+
+  it('reaches every tab of the target and nobody else', async () => {
+    const alice = await connect('alice')
+    const laptop = await connect('bob')
+    const phone = await connect('bob')
+    const carol = await connect('carol')
+    await waitFor(() => assert.equal(alice.client.getUsers().length, 3))
+
+    alice.client.sendTo('bob', 'ping', { n: 1 })
+    for (const tab of [laptop, phone]) {
+      await waitFor(() => assert.equal(tab.events.length, 1))
+      assert.equal(tab.events[0].event, 'ping')
+      assert.deepEqual(tab.events[0].data, { n: 1 })
+      assert.equal(tab.events[0].direct, true)
+      assert.equal(tab.events[0].user?.id, 'alice')
+    }
+    await delay(100)
+    assert.deepEqual(carol.events, [])
+    assert.deepEqual(alice.events, [])
+  })
+
+  it('keeps direct messages out of history', async () => {
+    const alice = await connect('alice')
+    await connect('bob')
+    await waitFor(() => assert.equal(alice.client.getUsers().length, 2))
+    await alice.client.sendTo('bob', 'secret', 1, { ack: true })
+    await alice.client.broadcast('public', 2, { ack: true })
+
+    const later = await connect('dave', { history: true })
+    await waitFor(() => assert.equal(later.events.length, 1))
+    await delay(100)
+    assert.deepEqual(later.events.map(message => message.event), ['public'])
+  })
+
+  it('acknowledges delivery, and fails for a user who is not in the room', async () => {
+    const alice = await connect('alice')
+    const bob = await connect('bob')
+    await waitFor(() => assert.equal(alice.client.getUsers().length, 2))
+
+    await alice.client.sendTo('bob', 'ping', 1, { ack: true })
+    await waitFor(() => assert.equal(bob.events.length, 1))
+    await assert.rejects(alice.client.sendTo('nobody', 'ping', 1, { ack: true }), { code: 'USER_NOT_FOUND' })
+  })
+})
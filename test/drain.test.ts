@@ -0,0 +1,62 @@
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { WebSocket } from 'ws'
+import { createCollabClient, createConsoleLogger } from '../src/index.js'
+import type { CollabClient, ServerConfig, ServerMessage } from '../src/types.js'
+import { delay, openSocket, startServer, waitFor } from './helpers.js'
+import type { TestServer } from './helpers.js'
+
+describe('draining a node', () => {
+  const config: ServerConfig = { auth: { verifyToken: token => ({ userId: token }) } }
+  let servers: TestServer[]
+  let clients: CollabClient[]
+
+  beforeEach(async () => {
+    servers = [await startServer(config)]
+    clients = []
+  })
+
+  afterEach(async () => {
+    clients.forEach(client => client.disconnect())
+    for (const server of servers) await server.close()
+  })
+
+  it('sends clients to the next node after the hinted delay, back in their rooms', async () => {
+    const [server] = servers
+    // The backoff alone would keep the client away for longer than the test waits
+    const alice = createCollabClient({ url: server.url, roomId: 'r', token: 'alice', WebSocket, idleTimeout: 0, reconnect: { initialDelay: 10000 }, logger: createConsoleLogger('error') })
+    clients.push(alice)
+    const hints: unknown[] = []
+    alice.on('going-away', (message: ServerMessage) => hints.push(message.retryAfter))
+    alice.joinRoom('s')
+    await waitFor(async () => assert.equal((await server.collab.getUsers('s')).length, 1))
+
+    await server.close({ reconnectDelay: 300, jitter: 0 })
+    assert.deepEqual(hints, [300])
+    assert.equal(alice.getState(), 'disconnected')
+
+    const next = await startServer(config, Number(new URL(server.url).port))
+    servers.push(next)
+    await waitFor(async () => {
+      assert.deepEqual((await next.collab.getUsers('r')).map(user => user.id), ['alice'])
+      assert.deepEqual((await next.collab.getUsers('s')).map(user => user.id), ['alice'])
+    })
+  })
+
+  it('refuses new connections until its clients have gone', async () => {
+    const [server] = servers
+    const stuck = await openSocket(server.url)
+    stuck.send({ type: 'join', roomId: 'r', token: 'alice' })
+    await stuck.next(message => message.type === 'session')
+    // A client that never reads the close frame holds the drain open until the timeout
+    stuck.ws.pause()
+
+    const started = Date.now()
+    const closed = server.close({ timeout: 500 })
+    await delay(50)
+    await assert.rejects(openSocket(server.url), /503/)
+    await closed
+    assert.ok(Date.now() - started >= 450)
+    stuck.ws.terminate()
+  })
+})
@@ -0,0 +1,107 @@
+import { createServer } from 'http'
+import type { AddressInfo } from 'net'
+import { WebSocket } from 'ws'
+import { createCollabServer } from '../src/server.js'
+import { createConsoleLogger } from '../src/logger.js'
+import type { CloseOptions, CollabServer, ServerConfig, ServerMessage, WebSocketConstructor } from '../src/types.js'
+
+export interface TestServer {
+  collab: CollabServer
+  url: string
+  close(options?: CloseOptions): Promise<void>
+}
+
+// A collab server on its own HTTP server, quiet unless something goes wrong. The port is a
+// free one unless given, e.g. to stand in for the next node after a drain.
+export async function startServer(config: ServerConfig = {}, port = 0): Promise<TestServer> {
+  const httpServer = createServer()
+  const collab = createCollabServer({ logger: createConsoleLogger('error'), ...config, server: httpServer })
+  await new Promise<void>(resolve => httpServer.listen(port, '127.0.0.1', resolve))
+  return {
+    collab,
+    url: `ws://127.0.0.1:${(httpServer.address() as AddressInfo).port}`,
+    async close(options) {
+      await collab.close({ reconnectDelay: 0, jitter: 0, timeout: 1000, ...options })
+      await new Promise(resolve => httpServer.close(resolve))
+    }
+  }
+}
+
+export interface RawSocket {
+  ws: WebSocket
+  messages: ServerMessage[]
+  send(message: object): void
+  // Resolves with the first message so far or from now on that matches
+  next(match: (message: ServerMessage) => boolean, timeout?: number): Promise<ServerMessage>
+}
+
+// A socket speaking the JSON protocol directly, for what the client library wouldn't send
+export async function openSocket(url: string): Promise<RawSocket> {
+  const ws = new WebSocket(url)
+  const messages: ServerMessage[] = []
+  const waiters = new Set<() => void>()
+  ws.on('message', data => {
+    messages.push(JSON.parse(String(data)) as ServerMessage)
+    waiters.forEach(waiter => waiter())
+  })
+  await new Promise((resolve, reject) => {
+    ws.once('open', resolve)
+    ws.once('error', reject)
+  })
+  return {
+    ws,
+    messages,
+    send: message => ws.send(JSON.stringify(message)),
+    next: (match, timeout = 2000) => new Promise((resolve, reject) => {
+      let seen = 0
+      const check = () => {
+        for (; seen < messages.length; seen++) {
+          if (!match(messages[seen])) continue
+          finish()
+          resolve(messages[seen])
+          return
+        }
+      }
+      const timer = setTimeout(() => {
+        finish()
+        reject(new Error(`No matching message within ${timeout}ms`))
+      }, timeout)
+      const finish = () => {
+        clearTimeout(timer)
+        waiters.delete(check)
+      }
+      waiters.add(check)
+      check()
+    })
+  }
+}
+
+// A `ws` WebSocket that records each socket a client opens, so a test can cut one off under it
+export function trackSockets(): { sockets: WebSocket[]; WebSocket: WebSocketConstructor } {
+  const sockets: WebSocket[] = []
+  class TrackedWebSocket extends WebSocket {
+    constructor(url: string, protocols?: string | string[], options?: { headers?: Record<string, string> }) {
+      super(url, protocols, options)
+      sockets.push(this)
+    }
+  }
+  return { sockets, WebSocket: TrackedWebSocket }
+}
+
+export function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+// Retries the assertion until it passes, failing with its last error after `timeout` ms
+export async function waitFor(assertion: () => void | Promise<void>, timeout = 2000): Promise<void> {
+  const deadline = Date.now() + timeout
+  for (;;) {
+    try {
+      await assertion()
+      return
+    } catch (error) {
+      if (Date.now() > deadline) throw error
+      await delay(20)
+    }
+  }
+}
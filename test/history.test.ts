@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { WebSocket } from 'ws'
+import { createCollabClient, createConsoleLogger, MemoryAdapter } from '../src/index.js'
+import type { ClientConfig, CollabClient, ServerMessage, WebSocketConstructor } from '../src/types.js'
+import { delay, startServer, trackSockets, waitFor } from './helpers.js'
+import type { TestServer } from './helpers.js'
+
+describe('event history', () => {
+  let server: TestServer
+  let sockets: WebSocket[]
+  let TrackedWebSocket: WebSocketConstructor
+  let clients: CollabClient[]
+  const getEvents = MemoryAdapter.prototype.getEvents
+
+  // Resolves once the client has its session, with the custom events it emits from then on
+  async function connect(token: string, config: Partial<ClientConfig> = {}): Promise<{ client: CollabClient; events: ServerMessage[] }> {
+    const client = createCollabClient({
+      url: server.url,
+      roomId: 'r',
+      token,
+      WebSocket: TrackedWebSocket,
+      idleTimeout: 0,
+      reconnect: { initialDelay: 100 },
+      logger: createConsoleLogger('error'),
+      ...config
+    })
+    clients.push(client)
+    const events: ServerMessage[] = []
+    client.on('custom', message => events.push(message))
+    await waitFor(() => assert.notEqual(client.getUserId(), null))
+    return { client, events }
+  }
+
+  const notes = (events: ServerMessage[]) => events.map(message => message.data)
+
+  beforeEach(async () => {
+    const tracked = trackSockets()
+    sockets = tracked.sockets
+    TrackedWebSocket = tracked.WebSocket
+    clients = []
+    server = await startServer({ history: true, auth: { verifyToken: token => ({ userId: token }) } })
+  })
+
+  afterEach(async () => {
+    MemoryAdapter.prototype.getEvents = getEvents
+    clients.forEach(client => client.disconnect())
+    await server.close()
+  })
+
+  it('replays the events sent before a first join that asks for history', async () => {
+    const bob = await connect('bob')
+    await bob.client.broadcast('note', 1, { ack: true })
+    await bob.client.broadcast('note', 2, { ack: true })
+
+    const alice = await connect('alice', { history: true })
+    await waitFor(() => assert.deepEqual(notes(alice.events), [1, 2]))
+    assert.equal(alice.events.every(message => message.replayed), true)
+
+    await bob.client.broadcast('note', 3, { ack: true })
+    await waitFor(() => assert.deepEqual(notes(alice.events), [1, 2, 3]))
+  })
+
+  it('replays what was missed while reconnecting, and nothing twice', async () => {
+    const alice = await connect('alice')
+    const bob = await connect('bob')
+    await bob.client.broadcast('note', 1, { ack: true })
+    await waitFor(() => assert.deepEqual(notes(alice.events), [1]))
+
+    sockets[0].terminate()
+    await waitFor(() => assert.equal(alice.client.getState(), 'disconnected'))
+    await bob.client.broadcast('note', 2, { ack: true })
+    await waitFor(() => assert.equal(alice.client.getState(), 'connected'))
+    await waitFor(() => assert.deepEqual(notes(alice.events), [1, 2]))
+    assert.equal(alice.events[1].replayed, true)
+
+    await delay(100)
+    assert.deepEqual(notes(alice.events), [1, 2])
+  })
+
+  it('skips replayed events that already arrived live while the join was replaying', async () => {
+    const bob = await connect('bob')
+    await bob.client.broadcast('note', 1, { ack: true })
+
+    // An event sent after the joining client is subscribed, but before history is read
+    MemoryAdapter.prototype.getEvents = async function (this: MemoryAdapter, ...args) {
+      await bob.client.broadcast('note', 2, { ack: true })
+      return getEvents.apply(this, args)
+    }
+    const alice = await connect('alice', { history: true })
+    await waitFor(() => assert.equal(alice.events.length, 2))
+    await delay(100)
+    assert.deepEqual(notes(alice.events).sort(), [1, 2])
+  })
+})
@@ -0,0 +1,26 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { decodeMsgpack, encodeMsgpack, msgpackCodec } from '../src/codecs/msgpack.js'
+
+describe('msgpack codec', () => {
+  it('round-trips JSON values of every size class', () => {
+    const values = [
+      null, true, false, 0, 127, 128, -32, -33, 65535, 2 ** 32, -(2 ** 31) - 1, 1.5, -0.25,
+      '', 'é', 'x'.repeat(40), 'y'.repeat(300), 'z'.repeat(70000),
+      [], Array.from({ length: 20 }, (_, i) => i), { a: 1, nested: { list: [1, 'two', null] } }
+    ]
+    for (const value of values) {
+      assert.deepEqual(decodeMsgpack(encodeMsgpack(value)), value)
+    }
+  })
+
+  it('round-trips cursor messages through their compact form', () => {
+    const message = { type: 'cursor' as const, roomId: 'doc', userId: 'alice', position: { x: 10, y: -4.5 } }
+    assert.deepEqual(msgpackCodec.decode(msgpackCodec.encode(message)), message)
+  })
+
+  it('rejects trailing bytes', () => {
+    const bytes = encodeMsgpack(1)
+    assert.throws(() => decodeMsgpack(new Uint8Array([...bytes, 0])))
+  })
+})
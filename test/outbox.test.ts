@@ -0,0 +1,140 @@
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { WebSocket } from 'ws'
+import { createCollabClient, createConsoleLogger } from '../src/index.js'
+import type { ClientConfig, CollabClient, ServerMessage, WebSocketConstructor } from '../src/types.js'
+import { delay, startServer, trackSockets, waitFor } from './helpers.js'
+import type { TestServer } from './helpers.js'
+
+describe('offline queue', () => {
+  let server: TestServer
+  let sockets: WebSocket[]
+  let TrackedWebSocket: WebSocketConstructor
+  let clients: CollabClient[]
+  // Joins wait on this gate, so messages sent meanwhile have no session to go to yet
+  let gate: Promise<void>
+  let openGate: () => void
+
+  function connect(token: ClientConfig['token'], config: Partial<ClientConfig> = {}): CollabClient {
+    const client = createCollabClient({
+      url: server.url,
+      roomId: 'r',
+      token,
+      WebSocket: TrackedWebSocket,
+      idleTimeout: 0,
+      reconnect: { initialDelay: 20 },
+      logger: createConsoleLogger('error'),
+      ...config
+    })
+    clients.push(client)
+    return client
+  }
+
+  // Collects what a second user in the room is sent
+  async function observe(event: string): Promise<unknown[]> {
+    const received: unknown[] = []
+    const bob = connect('bob')
+    bob.on('custom', (message: ServerMessage) => {
+      if (message.event === event) received.push(message.data)
+    })
+    await waitFor(() => assert.equal(bob.getUserId(), 'bob'))
+    return received
+  }
+
+  beforeEach(async () => {
+    const tracked = trackSockets()
+    sockets = tracked.sockets
+    TrackedWebSocket = tracked.WebSocket
+    clients = []
+    gate = new Promise(resolve => { openGate = resolve })
+    server = await startServer({
+      reconnectGracePeriod: 1000,
+      auth: { verifyToken: async token => (token === 'alice' ? gate.then(() => ({ userId: token })) : { userId: token }) }
+    })
+  })
+
+  afterEach(async () => {
+    openGate()
+    clients.forEach(client => client.disconnect())
+    await server.close()
+  })
+
+  it('sends what was buffered once the session is confirmed, keeping only the latest cursor', async () => {
+    const notes = await observe('note')
+    const cursors: unknown[] = []
+    clients[0].on('update', (message: ServerMessage) => {
+      if (message.user?.cursor) cursors.push(message.user.cursor)
+    })
+
+    const alice = connect('alice', { throttleCursor: 0 })
+    await waitFor(() => assert.equal(alice.getState(), 'connected'))
+    alice.broadcast('note', 1)
+    alice.cursor({ x: 1, y: 1 })
+    alice.broadcast('note', 2)
+    alice.cursor({ x: 2, y: 2 })
+    assert.equal(alice.getQueueSize(), 3)
+
+    openGate()
+    await waitFor(() => assert.deepEqual(notes, [1, 2]))
+    assert.equal(alice.getQueueSize(), 0)
+    await delay(100)
+    assert.equal(cursors.some(cursor => JSON.stringify(cursor) === JSON.stringify({ x: 1, y: 1 })), false)
+  })
+
+  it('drops messages whose policy is drop instead of queueing them', async () => {
+    const notes = await observe('note')
+    const dropped: unknown[] = []
+    const alice = connect('alice', { offlineQueue: { policies: { custom: 'drop' } } })
+    alice.on('dropped', (message: ServerMessage) => dropped.push(message.reason))
+    await waitFor(() => assert.equal(alice.getState(), 'connected'))
+
+    alice.broadcast('note', 1)
+    assert.equal(alice.getQueueSize(), 0)
+    assert.deepEqual(dropped, ['offline'])
+
+    openGate()
+    await waitFor(() => assert.equal(alice.getUserId(), 'alice'))
+    alice.broadcast('note', 2)
+    await waitFor(() => assert.deepEqual(notes, [2]))
+  })
+
+  it('never sends an acked broadcast whose request failed with the connection', async () => {
+    const notes = await observe('note')
+    const alice = connect('alice')
+    await waitFor(() => assert.equal(alice.getState(), 'connected'))
+
+    const sent = alice.broadcast('note', 1, { ack: true })
+    assert.equal(alice.getQueueSize(), 1)
+    sockets.at(-1)!.terminate()
+    await assert.rejects(sent, { code: 'NOT_CONNECTED' })
+    assert.equal(alice.getQueueSize(), 0)
+
+    openGate()
+    await waitFor(() => assert.equal(alice.getUserId(), 'alice'))
+    await delay(100)
+    assert.deepEqual(notes, [])
+  })
+
+  it('leaves a room left while the token provider was still running', async () => {
+    openGate()
+    let tokens = Promise.resolve('carol')
+    const carol = connect(() => tokens, { roomId: 'a', reconnect: { initialDelay: 200 } })
+    const resumed: unknown[] = []
+    carol.on('session', (message: ServerMessage) => resumed.push(message.resumed))
+    carol.joinRoom('b')
+    await waitFor(async () => assert.equal((await server.collab.getUsers('b')).length, 1))
+
+    let release!: () => void
+    tokens = new Promise(resolve => { release = () => resolve('carol') })
+    const first = sockets.at(-1)!
+    first.terminate()
+    await waitFor(async () => assert.equal((await server.collab.getUsers('b'))[0]?.status, 'away'))
+    await waitFor(() => assert.equal(sockets.at(-1) !== first && sockets.at(-1)!.readyState, WebSocket.OPEN))
+
+    carol.leaveRoom('b')
+    release()
+    await waitFor(() => assert.deepEqual(resumed, [false, true]))
+    await waitFor(async () => assert.deepEqual(await server.collab.getUsers('b'), []))
+    assert.equal((await server.collab.getUsers('a')).length, 1)
+  })
+})
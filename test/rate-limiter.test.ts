@@ -0,0 +1,44 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { createRateLimiter, TokenBucket } from '../src/limits/rate-limiter.js'
+import { MemoryAdapter } from '../src/adapters/memory.js'
+
+describe('TokenBucket', () => {
+  it('allows a burst, then refills at its rate', () => {
+    const bucket = new TokenBucket(10, 2, 0)
+    assert.equal(bucket.take(0), 0)
+    assert.equal(bucket.take(0), 0)
+    assert.equal(bucket.take(0), 100)
+    assert.equal(bucket.take(100), 0)
+    assert.equal(bucket.isFull(1000), true)
+  })
+})
+
+describe('createRateLimiter', () => {
+  it('notifies at the start of a streak, mutes and then disconnects', async () => {
+    const limiter = createRateLimiter(new MemoryAdapter(), {
+      rules: { typing: { rate: 1, burst: 1 } },
+      muteAfter: 3,
+      disconnectAfter: 5
+    })
+    const socket = {}
+
+    assert.deepEqual(await limiter.check(socket, 'typing'), { allowed: true })
+    const verdicts = []
+    for (let i = 0; i < 5; i++) verdicts.push(await limiter.check(socket, 'typing'))
+    assert.deepEqual(verdicts.map(verdict => verdict.allowed), [false, false, false, false, false])
+    assert.deepEqual(verdicts.map(verdict => !verdict.allowed && verdict.notify), [true, false, true, false, false])
+    assert.deepEqual(verdicts.map(verdict => !verdict.allowed && verdict.disconnect), [false, false, false, false, true])
+
+    // Limits are kept per connection, and unlisted types aren't limited
+    assert.deepEqual(await limiter.check({}, 'typing'), { allowed: true })
+    assert.deepEqual(await limiter.check(socket, 'ping'), { allowed: true })
+  })
+
+  it('shares per-user buckets across connections', async () => {
+    const limiter = createRateLimiter(new MemoryAdapter(), { rules: { custom: { rate: 1, burst: 1, per: 'user' } } })
+    assert.equal((await limiter.check({}, 'custom', 'alice')).allowed, true)
+    assert.equal((await limiter.check({}, 'custom', 'alice')).allowed, false)
+    assert.equal((await limiter.check({}, 'custom', 'bob')).allowed, true)
+  })
+})
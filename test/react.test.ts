@@ -0,0 +1,89 @@
+import { after, before, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { createServer } from 'http'
+import type { AddressInfo } from 'net'
+import { JSDOM } from 'jsdom'
+import { WebSocket } from 'ws'
+import { createCollabServer, createCollabClient, createConsoleLogger } from '../src/index.js'
+import type { CollabClient, CollabServer } from '../src/types.js'
+
+// react-dom decides whether it can use the DOM when it is first imported
+const dom = new JSDOM('<!doctype html><div id="root"></div>')
+Object.defineProperty(globalThis, 'navigator', { value: dom.window.navigator, configurable: true })
+Object.assign(globalThis, { window: dom.window, document: dom.window.document, IS_REACT_ACT_ENVIRONMENT: true })
+
+const { act, createElement: h, useState } = await import('react')
+const { createRoot } = await import('react-dom/client')
+const { CollabProvider, useConnectionState, useCustomEvent, useOthers } = await import('../src/react.js')
+
+// Renders once the client's messages have been handled, failing after `timeout` ms
+async function waitFor(assertion: () => void, timeout = 2000): Promise<void> {
+  const deadline = Date.now() + timeout
+  for (;;) {
+    await act(() => new Promise(resolve => setTimeout(resolve, 20)))
+    try {
+      assertion()
+      return
+    } catch (error) {
+      if (Date.now() > deadline) throw error
+    }
+  }
+}
+
+describe('React bindings', () => {
+  const httpServer = createServer()
+  let collab: CollabServer
+  let url: string
+  const clients: CollabClient[] = []
+
+  function connect(token: string): CollabClient {
+    const client = createCollabClient({ url, roomId: 'doc', token, WebSocket, idleTimeout: 0, logger: createConsoleLogger('warn') })
+    clients.push(client)
+    return client
+  }
+
+  before(async () => {
+    collab = createCollabServer({
+      server: httpServer,
+      logger: createConsoleLogger('warn'),
+      auth: { verifyToken: token => ({ userId: token, metadata: { name: token } }) }
+    })
+    await new Promise<void>(resolve => httpServer.listen(0, '127.0.0.1', resolve))
+    url = `ws://127.0.0.1:${(httpServer.address() as AddressInfo).port}`
+  })
+
+  after(async () => {
+    clients.forEach(client => client.disconnect())
+    await collab.close({ reconnectDelay: 0, jitter: 0 })
+    await new Promise(resolve => httpServer.close(resolve))
+  })
+
+  it('renders the connection state, the others in the room and their events', async () => {
+    const alice = connect('alice')
+
+    function Room() {
+      const state = useConnectionState()
+      const others = useOthers(users => users.map(user => user.metadata?.name).join(','))
+      const [greeting, setGreeting] = useState('')
+      useCustomEvent<string>('greet', setGreeting)
+      return h('p', { id: 'room' }, `${state}|${others}|${greeting}`)
+    }
+
+    const root = createRoot(document.getElementById('root')!)
+    await act(() => root.render(h(CollabProvider, { client: alice, roomId: 'doc' }, h(Room))))
+    const text = () => document.getElementById('room')?.textContent
+
+    await waitFor(() => assert.equal(text(), 'connected||'))
+
+    const bob = connect('bob')
+    await waitFor(() => assert.equal(text(), 'connected|bob|'))
+
+    bob.broadcast('greet', 'hello')
+    await waitFor(() => assert.equal(text(), 'connected|bob|hello'))
+
+    bob.disconnect()
+    await waitFor(() => assert.equal(text(), 'connected||hello'))
+
+    await act(() => root.unmount())
+  })
+})
@@ -0,0 +1,62 @@
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { WebSocket } from 'ws'
+import { CollabError, createCollabClient, createConsoleLogger, schema, ValidationError } from '../src/index.js'
+import type { CollabClient, Logger } from '../src/types.js'
+import { startServer, waitFor } from './helpers.js'
+import type { TestServer } from './helpers.js'
+
+describe('requests and acked broadcasts', () => {
+  let server: TestServer
+  let client: CollabClient
+  let logged: string[]
+
+  beforeEach(async () => {
+    logged = []
+    const logger: Logger = { ...createConsoleLogger('error'), error: message => logged.push(message) }
+    server = await startServer({ logger, auth: { verifyToken: token => ({ userId: token }) } })
+    client = createCollabClient({ url: server.url, roomId: 'r', token: 'alice', WebSocket, idleTimeout: 0, logger: createConsoleLogger('error') })
+    await waitFor(() => assert.equal(client.getUserId(), 'alice'))
+  })
+
+  afterEach(async () => {
+    client.disconnect()
+    await server.close()
+  })
+
+  it('resolves with what the handler returns', async () => {
+    server.collab.handle('add', (data, context) => {
+      const { a, b } = data as { a: number; b: number }
+      return { sum: a + b, userId: context.userId, roomId: context.roomId, role: context.role }
+    })
+    assert.deepEqual(await client.request('add', { a: 1, b: 2 }), { sum: 3, userId: 'alice', roomId: 'r', role: 'editor' })
+  })
+
+  it('rejects with the code the handler fails with, and hides unexpected failures', async () => {
+    server.collab.handle('forbidden', () => {
+      throw new CollabError('FORBIDDEN', 'Not yours.')
+    })
+    server.collab.handle('broken', () => {
+      throw new Error('database password is hunter2')
+    })
+
+    await assert.rejects(client.request('forbidden', null), { code: 'FORBIDDEN', message: 'Not yours.' })
+    await assert.rejects(client.request('broken', null), { code: 'INTERNAL_ERROR', message: 'Internal server error.' })
+    assert.deepEqual(logged, ['Failed to handle message'])
+  })
+
+  it('rejects requests nobody handles or answers in time', async () => {
+    server.collab.handle('slow', () => new Promise(() => {}))
+    await assert.rejects(client.request('missing', null), { code: 'NO_HANDLER' })
+    await assert.rejects(client.request('slow', null, { timeout: 100 }), { code: 'TIMEOUT' })
+  })
+
+  it('acknowledges broadcasts once the server has accepted them', async () => {
+    server.collab.defineEvent('chat', schema.object({ text: schema.string({ min: 1 }) }))
+    await client.broadcast('chat', { text: 'hi' }, { ack: true })
+    await assert.rejects(
+      client.broadcast('chat', { text: '' }, { ack: true }),
+      error => error instanceof ValidationError && error.code === 'INVALID_PAYLOAD' && error.issues.length === 1
+    )
+  })
+})
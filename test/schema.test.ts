@@ -0,0 +1,45 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { schema } from '../src/schema.js'
+import { createMessageSchemas } from '../src/messages.js'
+
+describe('schema.object', () => {
+  const point = schema.object({ x: schema.number(), y: schema.number() })
+
+  it('accepts the keys in its shape', () => {
+    assert.deepEqual(point.validate({ x: 1, y: 2 }), { success: true, value: { x: 1, y: 2 } })
+  })
+
+  it('rejects unknown keys', () => {
+    const result = point.validate({ x: 1, y: 2, z: 3 })
+    assert.equal(result.success, false)
+  })
+
+  it('rejects keys inherited from Object.prototype', () => {
+    for (const key of ['constructor', 'toString', 'hasOwnProperty', 'valueOf', '__proto__']) {
+      const value = JSON.parse(`{"x":1,"y":2,${JSON.stringify(key)}:"blob"}`)
+      const result = point.validate(value)
+      assert.equal(result.success, false, key)
+      if (!result.success) assert.deepEqual(result.issues, [{ path: key, message: 'is not allowed' }])
+    }
+  })
+
+  it('checks inherited key names against `rest` instead of skipping them', () => {
+    const tags = schema.object({}, { rest: schema.number() })
+    assert.equal(tags.validate({ constructor: 1 }).success, true)
+    assert.equal(tags.validate({ constructor: 'blob' }).success, false)
+  })
+})
+
+describe('message schemas', () => {
+  const schemas = createMessageSchemas()
+  const update = (id: string) => ({ type: 'doc-update', update: [{ op: 'map-set', root: 'meta', id, key: 'title', value: 'x' }] })
+
+  it('accepts op ids with clocks that stay exact as numbers', () => {
+    assert.equal(schemas['doc-update'].validate(update('999999999999999@alice')).success, true)
+  })
+
+  it('rejects op ids whose clock would lose precision', () => {
+    assert.equal(schemas['doc-update'].validate(update('9007199254740993@alice')).success, false)
+  })
+})
@@ -0,0 +1,63 @@
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { delay, openSocket, startServer, waitFor } from './helpers.js'
+import type { RawSocket, TestServer } from './helpers.js'
+
+describe('session resume', () => {
+  let server: TestServer
+  const sockets: RawSocket[] = []
+
+  async function join(message: object): Promise<{ socket: RawSocket; sessionId: string; userId: string; resumed: boolean }> {
+    const socket = await openSocket(server.url)
+    sockets.push(socket)
+    socket.send({ type: 'join', roomId: 'r', ...message })
+    const session = await socket.next(message => message.type === 'session')
+    return { socket, sessionId: session.sessionId!, userId: session.userId!, resumed: Boolean(session.resumed) }
+  }
+
+  const presence = async () => (await server.collab.getUsers('r')).map(user => [user.id, user.status])
+
+  beforeEach(async () => {
+    server = await startServer({ reconnectGracePeriod: 300, auth: { verifyToken: token => ({ userId: token }) } })
+  })
+
+  afterEach(async () => {
+    sockets.splice(0).forEach(socket => socket.ws.terminate())
+    await server.close()
+  })
+
+  it('resumes a dropped session as the same user, back online in its rooms', async () => {
+    const first = await join({ token: 'alice' })
+    first.socket.ws.terminate()
+    await waitFor(async () => assert.deepEqual(await presence(), [['alice', 'away']]))
+
+    const second = await join({ token: 'alice', resume: first.sessionId, roomId: 'other' })
+    assert.equal(second.resumed, true)
+    assert.equal(second.sessionId, first.sessionId)
+    await waitFor(async () => assert.deepEqual(await presence(), [['alice', 'online']]))
+
+    await delay(400)
+    assert.deepEqual(await presence(), [['alice', 'online']])
+  })
+
+  it('starts a new session instead of sharing one whose connection is still open', async () => {
+    const first = await join({ token: 'alice' })
+    const second = await join({ token: 'alice', resume: first.sessionId })
+    assert.equal(second.resumed, false)
+    assert.notEqual(second.sessionId, first.sessionId)
+
+    first.socket.ws.terminate()
+    await delay(500)
+    assert.deepEqual(await presence(), [['alice', 'online']])
+  })
+
+  it('resumes only for the user who owned the session', async () => {
+    const first = await join({ token: 'alice' })
+    first.socket.ws.terminate()
+    await waitFor(async () => assert.deepEqual(await presence(), [['alice', 'away']]))
+
+    const intruder = await join({ token: 'mallory', resume: first.sessionId })
+    assert.equal(intruder.resumed, false)
+    assert.equal(intruder.userId, 'mallory')
+  })
+})
@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { WebSocket } from 'ws'
+import { createCollabClient, createConsoleLogger } from '../src/index.js'
+import type { ClientConfig, CollabClient, ServerMessage, WebSocketConstructor } from '../src/types.js'
+import { startServer, trackSockets, waitFor } from './helpers.js'
+import type { TestServer } from './helpers.js'
+
+describe('one user in several tabs', () => {
+  let server: TestServer
+  let sockets: WebSocket[]
+  let TrackedWebSocket: WebSocketConstructor
+  let clients: CollabClient[]
+
+  async function connect(token: string, config: Partial<ClientConfig> = {}): Promise<CollabClient> {
+    const client = createCollabClient({
+      url: server.url,
+      roomId: 'r',
+      token,
+      WebSocket: TrackedWebSocket,
+      idleTimeout: 0,
+      reconnect: { initialDelay: 100 },
+      logger: createConsoleLogger('error'),
+      ...config
+    })
+    clients.push(client)
+    await waitFor(() => assert.notEqual(client.getUserId(), null))
+    return client
+  }
+
+  const users = async () => (await server.collab.getUsers('r')).map(user => [user.id, user.status, user.sessionCount])
+
+  beforeEach(async () => {
+    const tracked = trackSockets()
+    sockets = tracked.sockets
+    TrackedWebSocket = tracked.WebSocket
+    clients = []
+    server = await startServer({ history: true, auth: { verifyToken: token => ({ userId: token }) } })
+  })
+
+  afterEach(async () => {
+    clients.forEach(client => client.disconnect())
+    await server.close()
+  })
+
+  it('shows the user once, online until the last tab leaves', async () => {
+    const first = await connect('alice', { device: 'Laptop' })
+    const second = await connect('alice', { device: 'Phone' })
+    const bob = await connect('bob')
+
+    await waitFor(async () => assert.deepEqual(await users(), [['alice', 'online', 2], ['bob', 'online', 1]]))
+    await waitFor(() => assert.deepEqual(bob.getUsers().find(user => user.id === 'alice')?.devices?.sort(), ['Laptop', 'Phone']))
+
+    first.disconnect()
+    await waitFor(async () => assert.deepEqual(await users(), [['alice', 'online', 1], ['bob', 'online', 1]]))
+
+    second.disconnect()
+    await waitFor(async () => assert.deepEqual(await users(), [['bob', 'online', 1]]))
+  })
+
+  it('replays what another tab sent while this one was reconnecting', async () => {
+    const first = await connect('alice')
+    const second = await connect('alice')
+    const received: unknown[] = []
+    first.on('custom', (message: ServerMessage) => received.push([message.data, message.replayed ?? false]))
+
+    await second.broadcast('note', 1, { ack: true })
+    await waitFor(() => assert.deepEqual(received, [[1, false]]))
+
+    sockets[0].terminate()
+    await waitFor(() => assert.equal(first.getState(), 'disconnected'))
+    await second.broadcast('note', 2, { ack: true })
+    await waitFor(() => assert.deepEqual(received, [[1, false], [2, true]]))
+  })
+})